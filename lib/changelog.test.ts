@@ -12,6 +12,14 @@ import {
   hasVersion,
   getVersions,
   addVersionSection,
+  parseChangelogDocument,
+  serializeChangelog,
+  sectionContent,
+  detectHeaderStyle,
+  HEADER_DIALECTS,
+  HeaderDialect,
+  lintChangelog,
+  ChangelogDiagnostic,
   CommitEntry
 } from './changelog';
 import Fs from 'fs';
@@ -339,6 +347,103 @@ This is a changelog for my project.
   });
 });
 
+// ============================================================================
+// parseChangelogDocument Tests
+// ============================================================================
+
+describe('parseChangelogDocument', () => {
+  afterEach(cleanupTestFiles);
+
+  const KEEP_A_CHANGELOG = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+## [Unreleased]
+
+### Added
+
+- Pending feature
+
+## v1.1.0 (2025-02-01)
+
+### Fixed
+
+* Crash on empty input
+  with a second line
+* Off by one
+
+## v1.0.0 (2025-01-01)
+
+- Initial release
+
+[Unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD
+[1.1.0]: https://github.com/owner/repo/compare/v1.0.0...v1.1.0
+`;
+
+  test('captures title, preamble, sections, subsections, items and links', () => {
+    const doc = parseChangelogDocument(KEEP_A_CHANGELOG);
+
+    assert.strictEqual(doc.title?.text, 'Changelog');
+    assert.ok(doc.preamble.some(block => block.kind === 'text'));
+    assert.deepStrictEqual(doc.sections.map(section => [section.kind, section.version, section.date]), [
+      ['unreleased', undefined, undefined],
+      ['version', '1.1.0', '2025-02-01'],
+      ['version', '1.0.0', '2025-01-01']
+    ]);
+    assert.deepStrictEqual(doc.sections[1].subsections.map(subsection => subsection.heading.text), ['Fixed']);
+    const items = doc.sections[1].subsections[0].blocks.filter(block => block.kind === 'item');
+    assert.deepStrictEqual(items.map(item => item.kind === 'item' && [item.marker, item.text]), [
+      ['*', 'Crash on empty input\n  with a second line'],
+      ['*', 'Off by one']
+    ]);
+    assert.deepStrictEqual(doc.links.filter(block => block.kind === 'link').map(block => block.kind === 'link' && block.label), [
+      'Unreleased',
+      '1.1.0'
+    ]);
+    assert.strictEqual(sectionContent(doc.sections[2]), '- Initial release');
+  });
+
+  test('serializes an unmodified document byte for byte', () => {
+    const inputs = [
+      '',
+      KEEP_A_CHANGELOG,
+      KEEP_A_CHANGELOG.replace(/\n/g, '\r\n'),
+      '# Changelog\n\r\n## Unreleased\r\n\n- Feature\n',
+      '## v1.0.0\n\n- No trailing newline',
+      '\n\n# Changes\n\n\n\n## 0.1\n- a\n\n\n',
+      'Notes only\n[link]: https://example.com\n\n'
+    ];
+    for (const input of inputs) {
+      assert.strictEqual(serializeChangelog(parseChangelogDocument(input)), input);
+    }
+  });
+
+  test('keeps untouched sections byte for byte when mutating', () => {
+    const content = KEEP_A_CHANGELOG.replace(/\n/g, '\r\n');
+    const testFile = createTestFile(content);
+
+    addToUnreleased(testFile, [{ message: 'New', author: 'user' }], '## [Unreleased]');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    const released = content.slice(content.indexOf('## v1.1.0'));
+    assert.ok(result.endsWith(released));
+    assert.ok(result.includes('## [Unreleased]\r\n\r\n- New by @user\r\n\r\n### Added\r\n'));
+    assert.ok(!/[^\r]\n/.test(result), 'every line keeps the CRLF terminator');
+  });
+
+  test('keeps link reference definitions at the end when promoting', () => {
+    const testFile = createTestFile(KEEP_A_CHANGELOG);
+
+    promoteUnreleasedToVersion(testFile, '1.2.0', '2025-03-01', '## [Unreleased]');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.includes('## [Unreleased]\n\n## v1.2.0 (2025-03-01)\n\n### Added\n\n- Pending feature\n\n## v1.1.0'));
+    assert.ok(result.endsWith('- Initial release\n\n[Unreleased]: https://github.com/owner/repo/compare/v1.2.0...HEAD\n'
+      + '[1.2.0]: https://github.com/owner/repo/compare/v1.1.0...v1.2.0\n'
+      + '[1.1.0]: https://github.com/owner/repo/compare/v1.0.0...v1.1.0\n'));
+  });
+});
+
 // ============================================================================
 // validateChangelog Tests
 // ============================================================================
@@ -516,6 +621,140 @@ describe('validateChangelog', () => {
   });
 });
 
+// ============================================================================
+// lintChangelog Tests
+// ============================================================================
+
+describe('lintChangelog', () => {
+  afterEach(cleanupTestFiles);
+
+  const NOW = new Date('2025-06-01T12:00:00Z');
+
+  function lint(content: string, version: string, rules = {}): string[] {
+    const testFile = createTestFile(content);
+    return lintChangelog(testFile, version, rules, NOW).map((diagnostic: ChangelogDiagnostic) =>
+      `${diagnostic.line} ${diagnostic.severity} ${diagnostic.rule}: ${diagnostic.message}`
+    );
+  }
+
+  test('accepts a well-formed changelog', () => {
+    assert.deepStrictEqual(lint(`# Changelog
+
+## Unreleased
+
+### Added
+
+- Pending
+
+## v1.1.0 (2025-02-01)
+
+- Feature
+
+## v1.0.0 (2025-01-01)
+
+- Initial release
+`, 'v1.1.0'), []);
+  });
+
+  test('reports versions out of order and duplicated', () => {
+    assert.deepStrictEqual(lint(`## 2.0.0
+
+- A
+
+## 1.0.0
+
+- B
+
+## 1.5.0
+
+- C
+
+## 1.0
+
+- D
+`, '2.0.0'), [
+      '9 error version-order: Version 1.5.0 is listed below 1.0.0, versions should be in descending order',
+      '13 error duplicate-version: Version 1.0 is listed twice, first at line 5'
+    ]);
+  });
+
+  test('keeps numbered subsections of a version out of the versions', () => {
+    const content = '## 1.0.0\n\n### 1. Breaking changes\n\n- A\n\n### 2. Fixes\n\n- B\n';
+
+    assert.deepStrictEqual(parseChangelogDocument(content).sections.map(section => section.version), ['1.0.0']);
+    assert.deepStrictEqual(lint(content, '1.0.0'), []);
+  });
+
+  test('orders pre-releases before their release', () => {
+    assert.deepStrictEqual(lint('## 1.0.0\n\n- A\n\n## 1.0.0-rc.2\n\n- B\n\n## 1.0.0-rc.10\n\n- C\n', '1.0.0'), [
+      '9 error version-order: Version 1.0.0-rc.10 is listed below 1.0.0-rc.2, versions should be in descending order'
+    ]);
+  });
+
+  test('reports dates that are not ISO 8601, in the future or out of order', () => {
+    assert.deepStrictEqual(lint(`## 1.3.0 (2025-07-01)
+
+- A
+
+## 1.2.0 (Jan 1, 2025)
+
+- B
+
+## 1.1.0 (2025-02-30)
+
+- C
+
+## 1.0.0 (2025-03-01)
+
+- D
+
+## 0.9.0 (2025-04-01)
+
+- E
+`, '1.3.0'), [
+      '1 warning future-date: Date 2025-07-01 of 1.3.0 is in the future',
+      '5 warning date-format: Date "Jan 1, 2025" of 1.2.0 is not an ISO 8601 date (YYYY-MM-DD)',
+      '9 warning date-format: Date "2025-02-30" of 1.1.0 is not an ISO 8601 date (YYYY-MM-DD)',
+      '17 warning date-order: Version 0.9.0 is dated 2025-04-01, after the newer version 1.0.0 (2025-03-01)'
+    ]);
+  });
+
+  test('reports inconsistent header levels and bullets, and empty subsections', () => {
+    assert.deepStrictEqual(lint(`## 1.1.0
+
+### Added
+
+### Fixed
+
+- Crash
+* Leak
+
+# 1.0.0
+
++ Initial release
+`, '1.1.0'), [
+      '3 warning empty-subsection: Subsection "Added" of 1.1.0 is empty',
+      '8 warning bullet-style: Bullet "*" differs from the "-" used before in the changelog',
+      '10 warning header-level: Header of 1.0.0 is level 1, the first version header is level 2',
+      '12 warning bullet-style: Bullet "+" differs from the "-" used before in the changelog'
+    ]);
+  });
+
+  test('reports a released version that is not the topmost entry', () => {
+    assert.deepStrictEqual(lint('## 1.1.0\n\n- A\n\n## 1.0.0\n\n- B\n', 'v1.0.0'), [
+      '5 error latest-version: The released version v1.0.0 is not the topmost entry, 1.1.0 is listed above it'
+    ]);
+  });
+
+  test('applies the configured severities', () => {
+    const content = '## 1.0.0\n\n- A\n\n## 1.1.0\n\n* B\n';
+    assert.deepStrictEqual(lint(content, '1.1.0', { 'version-order': 'warning', 'latest-version': 'off', 'bullet-style': 'error' }), [
+      '5 warning version-order: Version 1.1.0 is listed below 1.0.0, versions should be in descending order',
+      '7 error bullet-style: Bullet "*" differs from the "-" used before in the changelog'
+    ]);
+  });
+});
+
 // ============================================================================
 // extractVersionChangelog Tests
 // ============================================================================
@@ -1406,6 +1645,330 @@ describe('addVersionSection', () => {
   });
 });
 
+// ============================================================================
+// Keep a Changelog Tests
+// ============================================================================
+
+describe('Keep a Changelog', () => {
+  afterEach(cleanupTestFiles);
+
+  const CHANGELOG = `# Changelog
+
+## [Unreleased]
+
+### Fixed
+
+- Pending fix
+
+## [1.1.0] - 2025-02-01
+
+### Added
+
+- Feature A
+- Feature B
+
+### Security
+
+- Escape user input
+
+## [1.0.0] - 2025-01-01
+
+- Initial release
+
+[unreleased]: https://github.com/owner/repo/compare/v1.1.0...HEAD
+[1.1.0]: https://github.com/owner/repo/compare/v1.0.0...v1.1.0
+[1.0.0]: https://github.com/owner/repo/releases/tag/v1.0.0
+`;
+
+  test('parses bracketed version headers and categorized subsections', () => {
+    const testFile = createTestFile(CHANGELOG);
+    const entries = parseChangelog(testFile).filter(entry => entry.version !== 'unreleased');
+
+    assert.deepStrictEqual(entries.map(entry => [entry.version, entry.date]), [
+      ['1.1.0', '2025-02-01'],
+      ['1.0.0', '2025-01-01']
+    ]);
+    assert.deepStrictEqual(entries[0].categories, {
+      Added: ['Feature A', 'Feature B'],
+      Security: ['Escape user input']
+    });
+    assert.strictEqual(entries[1].categories, undefined);
+    assert.ok(!entries[1].content.includes('[1.0.0]:'), 'link references are not part of the last entry');
+    assert.strictEqual(hasVersion(testFile, 'v1.1.0'), true);
+    assert.strictEqual(validateChangelog(testFile, '1.1.0').hasVersionEntry, true);
+  });
+
+  test('adds categorized entries to their subsection in Keep a Changelog order', () => {
+    const testFile = createTestFile(CHANGELOG);
+
+    addToUnreleased(testFile, [
+      { message: 'Drop OCaml 4.08', author: 'alice', category: 'Removed' },
+      { message: 'Fix crash', author: 'bob', category: 'Fixed' },
+      { message: 'New flag', author: 'carol', category: 'Added' }
+    ], '## [Unreleased]');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.startsWith(`# Changelog
+
+## [Unreleased]
+
+### Added
+
+- New flag by @carol
+
+### Removed
+
+- Drop OCaml 4.08 by @alice
+
+### Fixed
+
+- Fix crash by @bob
+- Pending fix
+
+## [1.1.0] - 2025-02-01
+`));
+  });
+
+  test('promotes with a Keep a Changelog header and updates the compare links', () => {
+    const testFile = createTestFile(CHANGELOG);
+
+    promoteUnreleasedToVersion(testFile, 'v1.2.0', '2025-11-28', '## [Unreleased]');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.includes('## [Unreleased]\n\n## [1.2.0] - 2025-11-28\n\n### Fixed\n\n- Pending fix\n\n## [1.1.0]'));
+    assert.ok(result.endsWith(`[unreleased]: https://github.com/owner/repo/compare/v1.2.0...HEAD
+[1.2.0]: https://github.com/owner/repo/compare/v1.1.0...v1.2.0
+[1.1.0]: https://github.com/owner/repo/compare/v1.0.0...v1.1.0
+[1.0.0]: https://github.com/owner/repo/releases/tag/v1.0.0
+`));
+    assert.deepStrictEqual(getVersions(testFile), ['1.2.0', '1.1.0', '1.0.0']);
+  });
+
+  test('links the first release to its tag and follows the tag prefix', () => {
+    const testFile = createTestFile(`## [Unreleased]
+
+- First feature
+
+[Unreleased]: https://github.com/owner/repo/commits/main
+`);
+
+    promoteUnreleasedToVersion(testFile, '0.1.0', '2025-01-01', '## [Unreleased]');
+    addToUnreleased(testFile, [{ message: 'Second feature', author: 'alice', category: 'Added' }], '## [Unreleased]');
+    promoteUnreleasedToVersion(testFile, '0.2.0', '2025-02-01', '## [Unreleased]');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.endsWith(`[Unreleased]: https://github.com/owner/repo/compare/0.2.0...main
+[0.2.0]: https://github.com/owner/repo/compare/0.1.0...0.2.0
+[0.1.0]: https://github.com/owner/repo/releases/tag/0.1.0
+`));
+  });
+
+  test('backfills a version with a Keep a Changelog header', () => {
+    const testFile = createTestFile(CHANGELOG);
+
+    addVersionSection(testFile, 'v1.0.5', '2025-01-15', [{ message: 'Hotfix', author: 'alice' }], '## [Unreleased]');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.includes('- Pending fix\n\n## [1.0.5] - 2025-01-15\n\n- Hotfix by @alice\n\n## [1.1.0]'));
+  });
+});
+
+// ============================================================================
+// Header Dialect Tests
+// ============================================================================
+
+describe('Header dialects', () => {
+  afterEach(cleanupTestFiles);
+
+  test('parses the OCaml CHANGES dialects', () => {
+    const samples: [string, string, [string, string | undefined][]][] = [
+      ['atx', '### 2.3.0 (2025-01-04)\n\n- A\n\n### 2.2.0 (2024-12-01)\n\n- B\n', [['2.3.0', '2025-01-04'], ['2.2.0', '2024-12-01']]],
+      ['atx', '## v1.0.0 2024-05-01\n\n- A\n', [['1.0.0', '2024-05-01']]],
+      ['setext', '1.1.0 (2024-06-01)\n==================\n\n- A\n\nv1.0.0 2024-05-01\n-----------------\n\n- B\n', [['1.1.0', '2024-06-01'], ['1.0.0', '2024-05-01']]],
+      ['atx', '# 0.5.0\n~~~~~~~\n\n- A\n\n# 0.4.0\n~~~~~~~\n\n- B\n', [['0.5.0', undefined], ['0.4.0', undefined]]]
+    ];
+
+    for (const [dialect, content, versions] of samples) {
+      const doc = parseChangelogDocument(content);
+      assert.deepStrictEqual(doc.sections.map(section => [section.version, section.date]), versions);
+      assert.strictEqual(detectHeaderStyle(doc).dialect.name, dialect);
+      assert.strictEqual(serializeChangelog(doc), content);
+      assert.ok(doc.sections.every(section => sectionContent(section).startsWith('- ')), 'underlines are part of the header');
+    }
+  });
+
+  test('promotes with the header level and prefix of the latest version', () => {
+    const testFile = createTestFile(`## Unreleased
+
+- Pending
+
+### 2.3.0 (2025-01-04)
+
+- Old
+`);
+
+    promoteUnreleasedToVersion(testFile, 'v2.4.0', '2025-02-01');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.includes('## Unreleased\n\n### 2.4.0 (2025-02-01)\n\n- Pending\n\n### 2.3.0'));
+  });
+
+  test('writes setext headers with an underline as wide as the header', () => {
+    const testFile = createTestFile(`## Unreleased
+
+- Pending
+
+1.0.0 (2024-05-01)
+==================
+
+- Old
+`);
+
+    promoteUnreleasedToVersion(testFile, '1.10.0', '2025-02-01');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.includes('1.10.0 (2025-02-01)\n===================\n\n- Pending\n\n1.0.0'));
+    assert.deepStrictEqual(getVersions(testFile), ['1.10.0', '1.0.0']);
+  });
+
+  test('keeps rules under ATX headers and the date format', () => {
+    const testFile = createTestFile(`## Unreleased
+
+# v0.5.0 2024-05-01
+~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~
+
+- Old
+`);
+
+    addVersionSection(testFile, '0.6.0', '2025-02-01', [{ message: 'New', author: 'alice' }]);
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.includes('## Unreleased\n\n# v0.6.0 2025-02-01\n~~~~~~~~~~~~~~~~~~~~~~~~~~~~~~\n\n- New by @alice\n\n# v0.5.0'));
+  });
+
+  test('dates headers of changelogs that have none', () => {
+    const testFile = createTestFile(`## Unreleased
+
+- Pending
+
+# 0.11
+- Released
+`);
+
+    promoteUnreleasedToVersion(testFile, '0.12', '2025-02-01');
+
+    const result = Fs.readFileSync(testFile, 'utf-8');
+    assert.ok(result.includes('# 0.12 (2025-02-01)\n\n- Pending\n\n# 0.11'));
+  });
+
+  test('accepts additional dialects', () => {
+    // "===== 5.7.0 (2024-01-01) ====="
+    const banner: HeaderDialect = {
+      name: 'banner',
+      match(lines, index) {
+        const match = lines[index].text.match(/^=+ (\d+(?:\.\d+)*) \(([^)]+)\) =+$/);
+        if (!match) {
+          return undefined;
+        }
+        return {
+          version: match[1],
+          date: match[2],
+          heading: { level: 1, text: match[1], lines: [lines[index]] },
+          style: { dialect: banner, level: 1, prefix: '', date: 'parens' }
+        };
+      },
+      format(_style, version, date) {
+        return [`===== ${version} (${date}) =====`];
+      }
+    };
+    const content = '===== 5.7.0 (2024-01-01) =====\n\n- A\n';
+
+    assert.strictEqual(parseChangelogDocument(content).sections.length, 0);
+    const doc = parseChangelogDocument(content, undefined, [banner, ...HEADER_DIALECTS]);
+    assert.deepStrictEqual(doc.sections.map(section => [section.version, section.date]), [['5.7.0', '2024-01-01']]);
+    assert.strictEqual(detectHeaderStyle(doc).dialect, banner);
+  });
+});
+
+// ============================================================================
+// Unreleased Section Tests
+// ============================================================================
+
+describe('Unreleased section', () => {
+  afterEach(cleanupTestFiles);
+
+  const HEADERS = ['# Unreleased', '## Unreleased', '## [Unreleased]', '### unreleased', '## main', '## dev', 'Unreleased\n----------'];
+
+  test('recognizes every heading form in validation and mutation alike', () => {
+    for (const header of HEADERS) {
+      const testFile = createTestFile(`# Changelog\n\n${header}\n\n- Pending\n\n## 1.0.0\n\n- Released\n`);
+
+      const validation = validateChangelog(testFile, '1.0.0');
+      assert.strictEqual(validation.hasUnreleased, true, header);
+      assert.strictEqual(getUnreleasedContent(testFile), '- Pending', header);
+
+      addToUnreleased(testFile, [{ message: 'New', author: 'user' }]);
+      assert.strictEqual(getUnreleasedContent(testFile), '- New by @user\n- Pending', header);
+
+      promoteUnreleasedToVersion(testFile, '1.1.0', '2025-01-01');
+      const result = Fs.readFileSync(testFile, 'utf-8');
+      assert.ok(result.startsWith(`# Changelog\n\n${header}\n\n## 1.1.0 (2025-01-01)\n\n- New by @user\n- Pending\n`), result);
+      assert.strictEqual(validateChangelog(testFile, '1.1.0').hasUnreleased, false, header);
+    }
+  });
+
+  test('parses setext unreleased headings with their underline', () => {
+    const content = 'Unreleased\n==========\n\n- Pending\n\n1.0.0 (2025-01-01)\n==================\n\n- Released\n';
+    const doc = parseChangelogDocument(content);
+
+    assert.deepStrictEqual(doc.sections.map(section => [section.kind, section.heading.level, section.heading.lines.length]), [
+      ['unreleased', 1, 2],
+      ['version', 1, 2]
+    ]);
+    assert.strictEqual(serializeChangelog(doc), content);
+  });
+
+  test('keeps deeper alias headings of a version as its subsections', () => {
+    const testFile = createTestFile('## 1.0.0\n\n### Dev\n\n- ci tweak\n\n### Fixed\n\n- bug\n');
+
+    const entries = parseChangelog(testFile);
+    assert.deepStrictEqual(entries.map(entry => entry.version), ['1.0.0']);
+    assert.strictEqual(entries[0].content, '### Dev\n\n- ci tweak\n\n### Fixed\n\n- bug');
+    assert.strictEqual(validateChangelog(testFile, '1.0.0').valid, true);
+    assert.strictEqual(getUnreleasedContent(testFile), null);
+  });
+
+  test('accepts custom aliases', () => {
+    const testFile = createTestFile('## Next release\n\n- Pending\n\n## 1.0.0\n\n- Released\n');
+
+    assert.strictEqual(getUnreleasedContent(testFile), null);
+    assert.throws(() => promoteUnreleasedToVersion(testFile, '1.1.0', '2025-01-01'), /not found/i);
+    assert.strictEqual(getUnreleasedContent(testFile, undefined, ['Next release']), '- Pending');
+    assert.deepStrictEqual(parseChangelog(testFile, ['next release']).map(entry => entry.version), ['unreleased', '1.0.0']);
+
+    promoteUnreleasedToVersion(testFile, '1.1.0', '2025-01-01', undefined, ['Next release']);
+    assert.ok(Fs.readFileSync(testFile, 'utf-8').startsWith('## Next release\n\n## 1.1.0 (2025-01-01)\n\n- Pending\n'));
+  });
+
+  test('does not count the preamble when there is an unreleased section', () => {
+    const testFile = createTestFile(`# Changelog
+
+All notable changes to this project will be documented in this file.
+
+## [Unreleased]
+
+## [1.0.0] - 2025-01-01
+
+- Released
+`);
+    const validation = validateChangelog(testFile, '1.0.0');
+
+    assert.strictEqual(validation.hasUnreleased, false);
+    assert.ok(!validation.warnings.some(warning => warning.includes('Unreleased')));
+    assert.strictEqual(getUnreleasedContent(testFile), '');
+  });
+});
+
 // ============================================================================
 // Edge Cases and Error Handling
 // ============================================================================
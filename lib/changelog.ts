@@ -1,10 +1,19 @@
 import * as core from '@actions/core';
 import Fs from 'fs';
 
+/**
+ * The change types of Keep a Changelog (https://keepachangelog.com), in the
+ * order its sections are written
+ */
+export const CHANGE_CATEGORIES = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'] as const;
+
+export type ChangeCategory = typeof CHANGE_CATEGORIES[number];
+
 export interface ChangelogEntry {
   version: string;
   date?: string;
   content: string;
+  categories?: Partial<Record<ChangeCategory, string[]>>;
 }
 
 export interface ChangelogValidation {
@@ -16,56 +25,759 @@ export interface ChangelogValidation {
   errors: string[];
 }
 
-const VERSION_PATTERN = /^#{1,3}\s+v?(\d+(?:\.\d+)*(?:-[a-zA-Z0-9.]+)?)\s*(?:\(([^)]+)\))?/;
+/**
+ * The rules of lintChangelog
+ */
+export const CHANGELOG_RULES = [
+  'version-order',
+  'duplicate-version',
+  'date-format',
+  'future-date',
+  'date-order',
+  'header-level',
+  'bullet-style',
+  'empty-subsection',
+  'latest-version'
+] as const;
+
+export type ChangelogRule = typeof CHANGELOG_RULES[number];
+
+export const RULE_SEVERITIES = ['error', 'warning', 'off'] as const;
+
+export type RuleSeverity = typeof RULE_SEVERITIES[number];
+
+export type ChangelogRules = Partial<Record<ChangelogRule, RuleSeverity>>;
+
+export const DEFAULT_CHANGELOG_RULES: Record<ChangelogRule, RuleSeverity> = {
+  'version-order': 'error',
+  'duplicate-version': 'error',
+  'date-format': 'warning',
+  'future-date': 'warning',
+  'date-order': 'warning',
+  'header-level': 'warning',
+  'bullet-style': 'warning',
+  'empty-subsection': 'warning',
+  'latest-version': 'error'
+};
+
+export interface ChangelogDiagnostic {
+  rule: ChangelogRule;
+  severity: 'error' | 'warning';
+  message: string;
+  file: string;
+  line: number;
+}
+
+/**
+ * A physical line of the changelog with its original terminator ('\n', '\r\n',
+ * or '' for a last line without one), so the document serializes back byte for byte
+ */
+export interface ChangelogLine {
+  text: string;
+  eol: string;
+}
+
+export interface ChangelogHeading {
+  level: number;
+  text: string;
+  lines: ChangelogLine[];
+}
+
+/**
+ * A run of lines inside a section: a blank line, a paragraph, a bullet item with
+ * its indented continuation lines, or a link reference definition
+ */
+export type ChangelogBlock =
+  | { kind: 'blank'; lines: ChangelogLine[] }
+  | { kind: 'text'; lines: ChangelogLine[] }
+  | { kind: 'item'; marker: string; text: string; lines: ChangelogLine[] }
+  | { kind: 'link'; label: string; url: string; lines: ChangelogLine[] };
+
+/**
+ * A heading nested in a section, such as "### Fixed", and the blocks under it
+ */
+export interface ChangelogSubsection {
+  heading: ChangelogHeading;
+  blocks: ChangelogBlock[];
+}
+
+export interface ChangelogSection {
+  kind: 'unreleased' | 'version';
+  heading: ChangelogHeading;
+  version?: string;
+  date?: string;
+  style?: HeaderStyle;
+  blocks: ChangelogBlock[];
+  subsections: ChangelogSubsection[];
+}
+
+/**
+ * How a changelog writes its version headers, detected from an existing
+ * header so that new ones look the same
+ */
+export interface HeaderStyle {
+  dialect: HeaderDialect;
+  level: number;
+  prefix: string;                          // 'v' or ''
+  date: 'parens' | 'dash' | 'space' | 'none';
+  underline?: string;                      // Setext underline or rule character: '=', '-' or '~'
+  underlineWidth?: number;                 // Fixed rule width, or the width of the header line
+}
+
+export interface VersionHeader {
+  version: string;
+  date?: string;
+  heading: ChangelogHeading;
+  style: HeaderStyle;
+}
+
+/**
+ * A way of writing version headers: match() recognizes a header starting at
+ * lines[index], and format() writes the lines of a new header in a style
+ * detected by match()
+ */
+export interface HeaderDialect {
+  name: string;
+  match(lines: ChangelogLine[], index: number): VersionHeader | undefined;
+  format(style: HeaderStyle, version: string, date: string): string[];
+}
+
+/**
+ * A changelog as a tree: the title, the text before the first section, the
+ * unreleased and version sections in file order, and the link reference
+ * definitions that end the file. Every node keeps its source lines, so
+ * serializeChangelog(parseChangelogDocument(content)) === content and a
+ * mutation only rewrites the nodes it touches.
+ */
+export interface ChangelogDocument {
+  title?: ChangelogHeading;
+  preamble: ChangelogBlock[];
+  sections: ChangelogSection[];
+  links: ChangelogBlock[];
+  eol: string;
+}
+
+// "v1.0.0 (2025-01-13)", "1.0.0 - 2025-01-13" or "v1.0.0 2025-01-13"
+const VERSION_PATTERN = /^(v?)(\d+(?:\.\d+)*(?:-[a-zA-Z0-9.]+)?)(?:\s*\(([^)]+)\)|\s+-\s+(\S+)|\s+(\d{4}-\d{2}-\d{2}))?/;
+// "[1.0.0] - 2025-01-13"
+const KEEP_A_CHANGELOG_PATTERN = /^\[(v?)(\d+(?:\.\d+)*(?:-[a-zA-Z0-9.]+)?)\](?:\s*-\s+(\S+))?/;
+// Setext underline, or a rule under an ATX header
+const RULE_PATTERN = /^(={3,}|-{3,}|~{3,})\s*$/;
 const TITLE_PATTERN = /^#\s+(Changelog|Changes)\s*$/i;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*$/;
+const ITEM_PATTERN = /^ ?([-*+]|\d+[.)])[ \t]+(.*)$/;
+const LINK_PATTERN = /^ {0,3}\[([^\]]+)\]:\s*(\S+)/;
+const DEFAULT_UNRELEASED_HEADER = '## Unreleased';
 
-export function parseChangelog(changelogPath: string): ChangelogEntry[] {
-  try {
-    const content = Fs.readFileSync(changelogPath, 'utf-8');
-    const entries: ChangelogEntry[] = [];
-    const lines = content.split('\n');
-
-    let currentEntry: ChangelogEntry | null = null;
-    let currentContent: string[] = [];
-    let foundFirstVersion = false;
-    let unreleasedContent: string[] = [];
-
-    for (const line of lines) {
-      const versionMatch = line.match(VERSION_PATTERN);
-
-      if (versionMatch) {
-        if (!foundFirstVersion && unreleasedContent.length > 0) {
-          const trimmed = unreleasedContent.join('\n').trim();
-          if (trimmed) {
-            entries.push({ version: 'unreleased', content: trimmed });
-          }
-        }
-        foundFirstVersion = true;
+/**
+ * Names of the section collecting unreleased changes, matched case-insensitively
+ * against headings such as "# Unreleased", "## [Unreleased]" or "## dev"
+ */
+export const UNRELEASED_ALIASES = ['Unreleased', 'main', 'dev'];
 
-        if (currentEntry) {
-          currentEntry.content = currentContent.join('\n').trim();
-          entries.push(currentEntry);
-        }
+// "[Unreleased]: https://github.com/owner/repo/compare/v1.0.0...HEAD", or a
+// link to the commits when nothing was released yet
+const UNRELEASED_LINK_PATTERN = /^(.*?)\/(?:compare\/(.+?)\.\.\.|commits\/|tree\/)([^/\s]+)$/;
+
+function parseVersionText(text: string, whole: boolean): {
+  prefix: string;
+  version: string;
+  date?: string;
+  dateStyle: HeaderStyle['date'];
+} | undefined {
+  const match = text.match(VERSION_PATTERN);
+  if (!match || (whole && text.slice(match[0].length).trim())) {
+    return undefined;
+  }
+  const dateStyle = match[3] ? 'parens' : match[4] ? 'dash' : match[5] ? 'space' : 'none';
+  return { prefix: match[1], version: match[2], date: match[3] ?? match[4] ?? match[5], dateStyle };
+}
+
+function formatDate(style: HeaderStyle, date: string): string {
+  switch (style.date) {
+    case 'dash':
+      return ` - ${date}`;
+    case 'space':
+      return ` ${date}`;
+    default:
+      // Headers without a date get a parenthesised one
+      return ` (${date})`;
+  }
+}
+
+function underline(style: HeaderStyle, line: string): string[] {
+  return style.underline ? [style.underline.repeat(style.underlineWidth ?? line.length)] : [];
+}
+
+function underlineStyle(rule: string, line: string): Pick<HeaderStyle, 'underline' | 'underlineWidth'> {
+  return { underline: rule[0], underlineWidth: rule.length === line.length ? undefined : rule.length };
+}
+
+/**
+ * "## [1.0.0] - 2025-01-13"
+ */
+const keepAChangelogDialect: HeaderDialect = {
+  name: 'keep-a-changelog',
+  match(lines, index) {
+    const heading = parseHeading(lines[index]);
+    const match = heading && heading.level <= 3 ? heading.text.match(KEEP_A_CHANGELOG_PATTERN) : null;
+    if (!heading || !match) {
+      return undefined;
+    }
+    return {
+      version: match[2],
+      date: match[3],
+      heading,
+      style: { dialect: keepAChangelogDialect, level: heading.level, prefix: match[1], date: 'dash' }
+    };
+  },
+  format(style, version, date) {
+    return [`${'#'.repeat(style.level)} [${style.prefix}${version.replace(/^v/, '')}] - ${date}`];
+  }
+};
+
+/**
+ * "## v1.0.0 (2025-01-13)", "### 2.3.0 (2025-01-04)" or "# 0.5.0", optionally
+ * followed by a rule such as "~~~~~~~"
+ */
+const atxDialect: HeaderDialect = {
+  name: 'atx',
+  match(lines, index) {
+    const heading = parseHeading(lines[index]);
+    const parsed = heading && heading.level <= 3 ? parseVersionText(heading.text, false) : undefined;
+    if (!heading || !parsed) {
+      return undefined;
+    }
+    const rule = lines[index + 1]?.text.match(RULE_PATTERN);
+    if (rule) {
+      heading.lines.push(lines[index + 1]);
+    }
+    return {
+      version: parsed.version,
+      date: parsed.date,
+      heading,
+      style: {
+        dialect: atxDialect,
+        level: heading.level,
+        prefix: parsed.prefix,
+        date: parsed.dateStyle,
+        ...(rule ? underlineStyle(rule[1], lines[index].text) : {})
+      }
+    };
+  },
+  format(style, version, date) {
+    const line = `${'#'.repeat(style.level)} ${style.prefix}${version.replace(/^v/, '')}${formatDate(style, date)}`;
+    return [line, ...underline(style, line)];
+  }
+};
 
-          currentEntry = {
-            version: versionMatch[1],
-            date: versionMatch[2],
-            content: ''
-          };
-        currentContent = [];
-      } else if (foundFirstVersion && currentEntry) {
-        currentContent.push(line);
-      } else if (!foundFirstVersion && !line.match(TITLE_PATTERN)) {
-        unreleasedContent.push(line);
+/**
+ * "1.0.0 (2025-01-13)" or "v1.0.0 2024-05-01" underlined with "=====" (level 1)
+ * or "-----" and "~~~~~" (level 2)
+ */
+const setextDialect: HeaderDialect = {
+  name: 'setext',
+  match(lines, index) {
+    const line = lines[index];
+    const rule = lines[index + 1]?.text.match(RULE_PATTERN);
+    const parsed = rule && !/^\s/.test(line.text) ? parseVersionText(line.text.trim(), true) : undefined;
+    if (!rule || !parsed) {
+      return undefined;
+    }
+    const level = rule[1][0] === '=' ? 1 : 2;
+    return {
+      version: parsed.version,
+      date: parsed.date,
+      heading: { level, text: line.text.trim(), lines: [line, lines[index + 1]] },
+      style: {
+        dialect: setextDialect,
+        level,
+        prefix: parsed.prefix,
+        date: parsed.dateStyle,
+        ...underlineStyle(rule[1], line.text)
       }
+    };
+  },
+  format(style, version, date) {
+    const line = `${style.prefix}${version.replace(/^v/, '')}${formatDate(style, date)}`;
+    return [line, ...underline(style, line)];
+  }
+};
+
+/**
+ * The header dialects tried, in order, on every line of a changelog
+ */
+export const HEADER_DIALECTS: HeaderDialect[] = [keepAChangelogDialect, atxDialect, setextDialect];
+
+function matchVersionHeader(
+  dialects: HeaderDialect[],
+  lines: ChangelogLine[],
+  index: number
+): VersionHeader | undefined {
+  for (const dialect of dialects) {
+    const header = dialect.match(lines, index);
+    if (header) {
+      return header;
+    }
+  }
+  return undefined;
+}
+
+function splitLines(content: string): ChangelogLine[] {
+  const parts = content.split('\n');
+  const lines = parts.map((part, index): ChangelogLine => {
+    if (index === parts.length - 1) {
+      return { text: part, eol: '' };
     }
+    return part.endsWith('\r')
+      ? { text: part.slice(0, -1), eol: '\r\n' }
+      : { text: part, eol: '\n' };
+  });
+  if (lines[lines.length - 1].text === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function parseHeading(line: ChangelogLine): ChangelogHeading | undefined {
+  const match = line.text.match(HEADING_PATTERN);
+  return match ? { level: match[1].length, text: match[2], lines: [line] } : undefined;
+}
+
+function createHeading(text: string, doc: ChangelogDocument): ChangelogHeading {
+  const line = { text, eol: doc.eol };
+  return parseHeading(line) ?? { level: 2, text: text.trim(), lines: [line] };
+}
+
+// "## Unreleased", "# [Unreleased]" and "Unreleased" all name the section "unreleased"
+function unreleasedName(text: string): string {
+  return text.trim().replace(/^#+\s*/, '').replace(/^\[(.*)\]$/, '$1').trim().toLowerCase();
+}
+
+/**
+ * Match the heading of the unreleased section at lines[index]: an ATX or
+ * setext heading named after one of the aliases, with or without brackets.
+ * The caller decides whether its level allows it to start a section.
+ */
+function matchUnreleasedHeader(
+  lines: ChangelogLine[],
+  index: number,
+  names: string[]
+): ChangelogHeading | undefined {
+  const line = lines[index];
+  const heading = parseHeading(line);
+  if (heading) {
+    return names.includes(unreleasedName(heading.text)) ? heading : undefined;
+  }
+  const rule = lines[index + 1]?.text.match(RULE_PATTERN);
+  if (rule && !/^\s/.test(line.text) && names.includes(unreleasedName(line.text))) {
+    return { level: rule[1][0] === '=' ? 1 : 2, text: line.text.trim(), lines: [line, lines[index + 1]] };
+  }
+  return undefined;
+}
+
+/**
+ * Append a line to the blocks of the current section, extending the
+ * paragraph or bullet item it continues
+ */
+function appendLine(blocks: ChangelogBlock[], line: ChangelogLine): void {
+  const last = blocks[blocks.length - 1];
+  const item = line.text.match(ITEM_PATTERN);
+  const link = line.text.match(LINK_PATTERN);
+
+  if (!line.text.trim()) {
+    blocks.push({ kind: 'blank', lines: [line] });
+  } else if (item) {
+    blocks.push({ kind: 'item', marker: item[1], text: item[2], lines: [line] });
+  } else if (link) {
+    blocks.push({ kind: 'link', label: link[1], url: link[2], lines: [line] });
+  } else if (last?.kind === 'item' && /^\s/.test(line.text)) {
+    last.lines.push(line);
+    last.text += `\n${line.text}`;
+  } else if (last?.kind === 'text' && !HEADING_PATTERN.test(line.text)) {
+    last.lines.push(line);
+  } else {
+    blocks.push({ kind: 'text', lines: [line] });
+  }
+}
+
+/**
+ * The blocks that end a section: those of its last subsection, if any
+ */
+function lastBlocks(section: ChangelogSection): ChangelogBlock[] {
+  const subsection = section.subsections[section.subsections.length - 1];
+  return subsection ? subsection.blocks : section.blocks;
+}
+
+function versionSection(header: VersionHeader, blocks: ChangelogBlock[] = []): ChangelogSection {
+  const { heading, version, date, style } = header;
+  return { kind: 'version', heading, version, date, style, blocks, subsections: [] };
+}
+
+/**
+ * Create a version section whose header is written in the style of the
+ * latest version of the changelog
+ */
+function createVersionSection(
+  doc: ChangelogDocument,
+  version: string,
+  date: string,
+  blocks: ChangelogBlock[]
+): ChangelogSection {
+  const style = detectHeaderStyle(doc);
+  const lines = style.dialect.format(style, version, date).map(text => ({ text, eol: doc.eol }));
+  const header = style.dialect.match(lines, 0);
+  if (!header) {
+    throw new Error(`Header dialect ${style.dialect.name} does not recognize its own header "${lines[0].text}"`);
+  }
+  return versionSection(header, blocks);
+}
+
+/**
+ * The style of the version headers of a changelog: that of its latest version,
+ * or Keep a Changelog's when its unreleased section or links follow it, or
+ * "## v1.0.0 (2025-01-13)"
+ */
+export function detectHeaderStyle(doc: ChangelogDocument): HeaderStyle {
+  const latest = versionSections(doc)[0];
+  if (latest?.style) {
+    return latest.style;
+  }
+  const keepAChangelog = doc.sections.some(section => section.heading.text.startsWith('[')) ||
+    findLink(doc, 'unreleased') !== undefined;
+  return keepAChangelog
+    ? { dialect: keepAChangelogDialect, level: 2, prefix: '', date: 'dash' }
+    : { dialect: atxDialect, level: 2, prefix: 'v', date: 'parens' };
+}
 
-    if (currentEntry) {
-      currentEntry.content = currentContent.join('\n').trim();
-      entries.push(currentEntry);
+/**
+ * Parse a changelog into a ChangelogDocument. Version headers recognized by
+ * one of the dialects start a version section, a heading named after one of
+ * the unreleased aliases starts the unreleased section, and deeper headings
+ * inside a section start a subsection.
+ */
+export function parseChangelogDocument(
+  content: string,
+  unreleasedAliases: string[] = UNRELEASED_ALIASES,
+  dialects: HeaderDialect[] = HEADER_DIALECTS
+): ChangelogDocument {
+  const lines = splitLines(content);
+  const doc: ChangelogDocument = {
+    preamble: [],
+    sections: [],
+    links: [],
+    eol: lines.find(line => line.eol)?.eol ?? '\n'
+  };
+  const unreleasedNames = unreleasedAliases.map(unreleasedName);
+  let section: ChangelogSection | undefined;
+  let blocks = doc.preamble;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const heading = parseHeading(line);
+    // Inside a version, a deeper "### Dev" or "### Unreleased" is one of its subsections
+    const candidate = matchUnreleasedHeader(lines, index, unreleasedNames);
+    const unreleasedHeading = candidate && !(section?.kind === 'version' && candidate.level > section.heading.level)
+      ? candidate
+      : undefined;
+    // A deeper "### 1. Breaking changes" numbers a subsection, while a deeper
+    // "### 0.8.0" is an older version of a changelog with mixed levels
+    const versionCandidate = unreleasedHeading ? undefined : matchVersionHeader(dialects, lines, index);
+    const versionHeader = versionCandidate &&
+      !(section && versionCandidate.heading.level > section.heading.level && /^\d+$/.test(versionCandidate.version))
+      ? versionCandidate
+      : undefined;
+
+    if (unreleasedHeading) {
+      section = { kind: 'unreleased', heading: unreleasedHeading, blocks: [], subsections: [] };
+      doc.sections.push(section);
+      blocks = section.blocks;
+      index += unreleasedHeading.lines.length - 1;
+    } else if (versionHeader) {
+      section = versionSection(versionHeader);
+      doc.sections.push(section);
+      blocks = section.blocks;
+      index += versionHeader.heading.lines.length - 1;
+    } else if (index === 0 && heading?.level === 1) {
+      doc.title = heading;
+    } else if (section && heading && heading.level > section.heading.level) {
+      const subsection: ChangelogSubsection = { heading, blocks: [] };
+      section.subsections.push(subsection);
+      blocks = subsection.blocks;
+    } else {
+      appendLine(blocks, line);
     }
+  }
+
+  // Link reference definitions at the end of the file belong to the whole
+  // document, not to the last section
+  let start = blocks.length;
+  while (start > 0 && (blocks[start - 1].kind === 'link' || blocks[start - 1].kind === 'blank')) {
+    start--;
+  }
+  while (start < blocks.length && blocks[start].kind === 'blank') {
+    start++;
+  }
+  doc.links = blocks.splice(start);
+
+  return doc;
+}
+
+function blocksLines(blocks: ChangelogBlock[]): ChangelogLine[] {
+  return blocks.flatMap(block => block.lines);
+}
+
+function sectionLines(section: ChangelogSection): ChangelogLine[] {
+  return [
+    ...section.heading.lines,
+    ...blocksLines(section.blocks),
+    ...section.subsections.flatMap(subsection => [...subsection.heading.lines, ...blocksLines(subsection.blocks)])
+  ];
+}
+
+function documentLines(doc: ChangelogDocument): ChangelogLine[] {
+  return [
+    ...(doc.title?.lines ?? []),
+    ...blocksLines(doc.preamble),
+    ...doc.sections.flatMap(sectionLines),
+    ...blocksLines(doc.links)
+  ];
+}
+
+/**
+ * Write a ChangelogDocument back to text. A line that lost its position as
+ * the last line of the file gets the document's line terminator.
+ */
+export function serializeChangelog(doc: ChangelogDocument): string {
+  const lines = documentLines(doc);
+  return lines
+    .map((line, index) => line.text + (line.eol || (index < lines.length - 1 ? doc.eol : '')))
+    .join('');
+}
+
+/**
+ * The text of a section below its heading, subsections included
+ */
+export function sectionContent(section: ChangelogSection): string {
+  return sectionLines(section).slice(section.heading.lines.length).map(line => line.text).join('\n').trim();
+}
+
+function readChangelog(changelogPath: string, unreleasedAliases?: string[]): ChangelogDocument {
+  return parseChangelogDocument(readChangelogContent(changelogPath), unreleasedAliases);
+}
+
+function writeChangelog(changelogPath: string, doc: ChangelogDocument): void {
+  Fs.writeFileSync(changelogPath, serializeChangelog(doc), 'utf-8');
+}
 
+function findUnreleasedSection(doc: ChangelogDocument): ChangelogSection | undefined {
+  return doc.sections.find(section => section.kind === 'unreleased');
+}
+
+function versionSections(doc: ChangelogDocument): ChangelogSection[] {
+  return doc.sections.filter(section => section.kind === 'version');
+}
+
+function blankBlock(doc: ChangelogDocument): ChangelogBlock {
+  return { kind: 'blank', lines: [{ text: '', eol: doc.eol }] };
+}
+
+function itemBlock(text: string, doc: ChangelogDocument): ChangelogBlock {
+  const match = text.match(ITEM_PATTERN);
+  return { kind: 'item', marker: match?.[1] ?? '-', text: match?.[2] ?? text, lines: [{ text, eol: doc.eol }] };
+}
+
+function ensureTrailingBlank(blocks: ChangelogBlock[], doc: ChangelogDocument): void {
+  if (blocks[blocks.length - 1]?.kind !== 'blank') {
+    blocks.push(blankBlock(doc));
+  }
+}
+
+function isFollowed(doc: ChangelogDocument, section: ChangelogSection): boolean {
+  return doc.sections.indexOf(section) < doc.sections.length - 1 || doc.links.length > 0;
+}
+
+/**
+ * Insert a section at the given index, with a blank line on each side
+ */
+function insertSection(doc: ChangelogDocument, index: number, section: ChangelogSection): void {
+  const before = index > 0 ? lastBlocks(doc.sections[index - 1]) : doc.preamble;
+  if (index > 0 || doc.title || before.length > 0) {
+    ensureTrailingBlank(before, doc);
+  }
+  doc.sections.splice(index, 0, section);
+  if (isFollowed(doc, section)) {
+    ensureTrailingBlank(lastBlocks(section), doc);
+  }
+}
+
+/**
+ * Put items first in the blocks under a heading, one blank line after the
+ * heading, and keep the existing content lines
+ */
+function prependItems(
+  blocks: ChangelogBlock[],
+  items: ChangelogBlock[],
+  followed: boolean,
+  doc: ChangelogDocument
+): ChangelogBlock[] {
+  const firstContent = blocks.findIndex(block => block.kind !== 'blank');
+  const existing = firstContent === -1 ? [] : blocks.slice(firstContent);
+  const result = [blankBlock(doc), ...items];
+  if (existing.length > 0 ? existing[0].kind !== 'item' : followed) {
+    result.push(blankBlock(doc));
+  }
+  return [...result, ...existing];
+}
+
+/**
+ * Find the subsection of a Keep a Changelog category, or create it in the
+ * order of CHANGE_CATEGORIES
+ */
+function categorySubsection(
+  doc: ChangelogDocument,
+  section: ChangelogSection,
+  category: ChangeCategory
+): ChangelogSubsection {
+  const existing = section.subsections.find(subsection => subsectionCategory(subsection) === category);
+  if (existing) {
+    return existing;
+  }
+
+  const order = CHANGE_CATEGORIES.indexOf(category);
+  let index = section.subsections.findIndex(subsection => {
+    const other = subsectionCategory(subsection);
+    return other !== undefined && CHANGE_CATEGORIES.indexOf(other) > order;
+  });
+  if (index === -1) {
+    index = section.subsections.length;
+  }
+
+  const subsection: ChangelogSubsection = {
+    heading: createHeading(`${'#'.repeat(section.heading.level + 1)} ${category}`, doc),
+    blocks: []
+  };
+  ensureTrailingBlank(index > 0 ? section.subsections[index - 1].blocks : section.blocks, doc);
+  section.subsections.splice(index, 0, subsection);
+  return subsection;
+}
+
+type ChangelogLink = Extract<ChangelogBlock, { kind: 'link' }>;
+
+function findLink(doc: ChangelogDocument, label: string): ChangelogLink | undefined {
+  return doc.links.find((block): block is ChangelogLink =>
+    block.kind === 'link' && block.label.toLowerCase() === label.toLowerCase()
+  );
+}
+
+/**
+ * Point the [Unreleased] compare link at the new tag and add the link of the
+ * released version below it, comparing it with the previous tag. The tag
+ * follows the 'v' prefix of the previous one.
+ */
+function updateCompareLinks(doc: ChangelogDocument, version: string): void {
+  const unreleasedLink = findLink(doc, 'unreleased');
+  const match = unreleasedLink?.url.match(UNRELEASED_LINK_PATTERN);
+  if (!unreleasedLink || !match) {
+    return;
+  }
+
+  const [, base, previous, head] = match;
+  const bareVersion = version.replace(/^v/, '');
+  const tag = previous ? `${previous.startsWith('v') ? 'v' : ''}${bareVersion}` : version;
+  const unreleasedUrl = `${base}/compare/${tag}...${head}`;
+  const versionUrl = previous ? `${base}/compare/${previous}...${tag}` : `${base}/releases/tag/${tag}`;
+
+  const line = unreleasedLink.lines[0];
+  line.text = line.text.replace(unreleasedLink.url, unreleasedUrl);
+  unreleasedLink.url = unreleasedUrl;
+
+  const text = `[${bareVersion}]: ${versionUrl}`;
+  doc.links.splice(doc.links.indexOf(unreleasedLink) + 1, 0, {
+    kind: 'link',
+    label: bareVersion,
+    url: versionUrl,
+    lines: [{ text, eol: doc.eol }]
+  });
+}
+
+function ensureTitle(doc: ChangelogDocument): void {
+  if (!doc.title) {
+    doc.title = createHeading('# Changelog', doc);
+    if (doc.preamble.length > 0 && doc.preamble[0].kind !== 'blank') {
+      doc.preamble.unshift(blankBlock(doc));
+    }
+  }
+}
+
+function isEmpty(doc: ChangelogDocument): boolean {
+  return documentLines(doc).every(line => !line.text.trim());
+}
+
+/**
+ * The entries of a document as returned by parseChangelog: the unreleased
+ * section as 'unreleased' (or, in a changelog without one, the text before
+ * the first version), then each version section
+ */
+function changelogEntries(doc: ChangelogDocument): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = [];
+  if (doc.sections.length === 0) {
     return entries;
+  }
+
+  const unreleased = findUnreleasedSection(doc);
+  const unreleasedContent = unreleased
+    ? sectionContent(unreleased)
+    : blocksLines(doc.preamble)
+      .map(line => line.text)
+      .filter(text => !TITLE_PATTERN.test(text))
+      .join('\n')
+      .trim();
+  if (unreleasedContent) {
+    entries.push({ version: 'unreleased', content: unreleasedContent });
+  }
+
+  for (const section of versionSections(doc)) {
+    const entry: ChangelogEntry = { version: section.version!, date: section.date, content: sectionContent(section) };
+    const categories = sectionCategories(section);
+    if (categories) {
+      entry.categories = categories;
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+function subsectionCategory(subsection: ChangelogSubsection): ChangeCategory | undefined {
+  return CHANGE_CATEGORIES.find(category => category.toLowerCase() === subsection.heading.text.toLowerCase());
+}
+
+/**
+ * The bullet items of each Keep a Changelog subsection of a section, or
+ * undefined when it has none
+ */
+function sectionCategories(section: ChangelogSection): Partial<Record<ChangeCategory, string[]>> | undefined {
+  let categories: Partial<Record<ChangeCategory, string[]>> | undefined;
+  for (const subsection of section.subsections) {
+    const category = subsectionCategory(subsection);
+    if (category) {
+      categories ??= {};
+      categories[category] = [
+        ...(categories[category] ?? []),
+        ...subsection.blocks.flatMap(block => block.kind === 'item' ? [block.text] : [])
+      ];
+    }
+  }
+  return categories;
+}
+
+export function parseChangelog(
+  changelogPath: string,
+  unreleasedAliases: string[] = UNRELEASED_ALIASES
+): ChangelogEntry[] {
+  try {
+    const content = Fs.readFileSync(changelogPath, 'utf-8');
+    return changelogEntries(parseChangelogDocument(content, unreleasedAliases));
   } catch (error: any) {
     throw new Error(`Failed to parse changelog: ${error.message}`);
   }
@@ -76,13 +788,14 @@ function normalizeVersion(version: string): string {
   return version.replace(/^v/, '').replace(/(?:\.0)+$/, '');
 }
 
-function versionsMatch(a: string, b: string): boolean {
+export function versionsMatch(a: string, b: string): boolean {
   return normalizeVersion(a) === normalizeVersion(b);
 }
 
 export function validateChangelog(
   changelogPath: string,
-  expectedVersion: string
+  expectedVersion: string,
+  unreleasedAliases: string[] = UNRELEASED_ALIASES
 ): ChangelogValidation {
   const validation: ChangelogValidation = {
     valid: true,
@@ -99,7 +812,7 @@ export function validateChangelog(
       return validation;
     }
 
-    const entries = parseChangelog(changelogPath);
+    const entries = parseChangelog(changelogPath, unreleasedAliases);
 
     if (entries.length === 0) {
       validation.valid = false;
@@ -154,6 +867,125 @@ export function validateChangelog(
   return validation;
 }
 
+// Compare two versions by their numeric segments, a pre-release coming before its release
+function compareVersions(a: string, b: string): number {
+  const [aRelease, ...aPre] = normalizeVersion(a).split('-');
+  const [bRelease, ...bPre] = normalizeVersion(b).split('-');
+  const aSegments = aRelease.split('.').map(Number);
+  const bSegments = bRelease.split('.').map(Number);
+  for (let i = 0; i < Math.max(aSegments.length, bSegments.length); i++) {
+    const difference = (aSegments[i] ?? 0) - (bSegments[i] ?? 0);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  if (aPre.length === 0 || bPre.length === 0) {
+    return bPre.length - aPre.length;
+  }
+  return aPre.join('-').localeCompare(bPre.join('-'), undefined, { numeric: true });
+}
+
+function isIsoDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return false;
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+/**
+ * Check the structure of a changelog against the rules, each finding carrying
+ * the line it is about. Rules set to 'off' are skipped, the others report
+ * with the severity of DEFAULT_CHANGELOG_RULES unless overridden.
+ */
+export function lintChangelog(
+  changelogPath: string,
+  releasedVersion: string,
+  rules: ChangelogRules = {},
+  now: Date = new Date(),
+  unreleasedAliases: string[] = UNRELEASED_ALIASES
+): ChangelogDiagnostic[] {
+  const doc = parseChangelogDocument(Fs.readFileSync(changelogPath, 'utf-8'), unreleasedAliases);
+  const lineNumbers = new Map(documentLines(doc).map((line, index) => [line, index + 1]));
+  const lineOf = (heading: ChangelogHeading | ChangelogBlock) => lineNumbers.get(heading.lines[0])!;
+  const severities = { ...DEFAULT_CHANGELOG_RULES, ...rules };
+  const diagnostics: ChangelogDiagnostic[] = [];
+
+  const report = (rule: ChangelogRule, line: number, message: string) => {
+    const severity = severities[rule];
+    if (severity !== 'off') {
+      diagnostics.push({ rule, severity, message, file: changelogPath, line });
+    }
+  };
+
+  const versions = versionSections(doc);
+  const today = now.toISOString().slice(0, 10);
+  const firstLines = new Map<string, number>();
+  let newestDated: ChangelogSection | undefined;
+
+  versions.forEach((section, index) => {
+    const version = section.version!;
+    const line = lineOf(section.heading);
+    const above = versions[index - 1];
+
+    const normalized = normalizeVersion(version);
+    const firstLine = firstLines.get(normalized);
+    if (firstLine !== undefined) {
+      report('duplicate-version', line, `Version ${version} is listed twice, first at line ${firstLine}`);
+    } else {
+      firstLines.set(normalized, line);
+      if (above && compareVersions(version, above.version!) > 0) {
+        report('version-order', line, `Version ${version} is listed below ${above.version}, versions should be in descending order`);
+      }
+    }
+
+    if (section.date) {
+      if (!isIsoDate(section.date)) {
+        report('date-format', line, `Date "${section.date}" of ${version} is not an ISO 8601 date (YYYY-MM-DD)`);
+      } else {
+        if (section.date > today) {
+          report('future-date', line, `Date ${section.date} of ${version} is in the future`);
+        }
+        if (newestDated && section.date > newestDated.date!) {
+          report('date-order', line, `Version ${version} is dated ${section.date}, after the newer version ${newestDated.version} (${newestDated.date})`);
+        } else {
+          newestDated = section;
+        }
+      }
+    }
+
+    if (section.heading.level !== versions[0].heading.level) {
+      report('header-level', line, `Header of ${version} is level ${section.heading.level}, the first version header is level ${versions[0].heading.level}`);
+    }
+  });
+
+  let bullet: string | undefined;
+  for (const section of doc.sections) {
+    const name = section.version ?? section.heading.text;
+    const blocks = [...section.blocks, ...section.subsections.flatMap(subsection => subsection.blocks)];
+    for (const block of blocks) {
+      if (block.kind === 'item' && /^[-*+]$/.test(block.marker)) {
+        bullet ??= block.marker;
+        if (block.marker !== bullet) {
+          report('bullet-style', lineOf(block), `Bullet "${block.marker}" differs from the "${bullet}" used before in the changelog`);
+        }
+      }
+    }
+    for (const subsection of section.subsections) {
+      if (subsection.blocks.every(block => block.kind === 'blank')) {
+        report('empty-subsection', lineOf(subsection.heading), `Subsection "${subsection.heading.text}" of ${name} is empty`);
+      }
+    }
+  }
+
+  const released = versions.find(section => versionsMatch(section.version!, releasedVersion));
+  if (released && released !== versions[0]) {
+    report('latest-version', lineOf(released.heading), `The released version ${releasedVersion} is not the topmost entry, ${versions[0].version} is listed above it`);
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+}
+
 /**
  * Extract version-specific changelog content and write to a temporary file
  */
@@ -163,20 +995,20 @@ export function extractVersionChangelog(
   outputPath: string
 ): void {
   try {
-    const entries = parseChangelog(changelogPath);
+    const doc = parseChangelogDocument(Fs.readFileSync(changelogPath, 'utf-8'));
     const normalizedVersion = version.replace(/^v/, '');
 
-    const versionEntry = entries.find(e =>
-      e.version === normalizedVersion ||
-      e.version === `v${normalizedVersion}`
+    const versionSection = versionSections(doc).find(section =>
+      section.version === normalizedVersion ||
+      section.version === `v${normalizedVersion}`
     );
 
-    if (!versionEntry) {
+    if (!versionSection) {
       throw new Error(`No changelog entry found for version ${version}`);
     }
 
     // Write the version content to the output file
-    const content = `## ${version}${versionEntry.date ? ` (${versionEntry.date})` : ''}\n\n${versionEntry.content}\n`;
+    const content = `## ${version}${versionSection.date ? ` (${versionSection.date})` : ''}\n\n${sectionContent(versionSection)}\n`;
     Fs.writeFileSync(outputPath, content, 'utf-8');
 
     core.info(`Created version-specific changelog at: ${outputPath}`);
@@ -194,6 +1026,7 @@ export interface CommitEntry {
   prNumber?: number;
   commitSha?: string;    // Short or full commit SHA
   repoUrl?: string;      // e.g., "https://github.com/owner/repo"
+  category?: ChangeCategory;  // Keep a Changelog subsection, e.g. "Fixed"
 }
 
 /**
@@ -229,11 +1062,10 @@ export function isEntryInChangelog(changelogPath: string, message: string): bool
     if (!Fs.existsSync(changelogPath)) {
       return false;
     }
-    const content = Fs.readFileSync(changelogPath, 'utf-8');
+    const doc = readChangelog(changelogPath);
     // Normalize whitespace for comparison
     const normalizedMessage = message.trim().toLowerCase();
-    const normalizedContent = content.toLowerCase();
-    return normalizedContent.includes(normalizedMessage);
+    return documentLines(doc).some(line => line.text.toLowerCase().includes(normalizedMessage));
   } catch {
     return false;
   }
@@ -249,50 +1081,6 @@ function readChangelogContent(changelogPath: string): string {
   return Fs.readFileSync(changelogPath, 'utf-8');
 }
 
-/**
- * Find the position and match of the unreleased header in the content
- */
-function findUnreleasedSection(content: string, unreleasedHeader: string): {
-  headerStart: number;
-  headerEnd: number;
-  contentStart: number;
-  contentEnd: number;
-} | null {
-  // Find the unreleased header (case-insensitive)
-  const headerRegex = new RegExp(`^${escapeRegex(unreleasedHeader)}\\s*$`, 'mi');
-  const headerMatch = content.match(headerRegex);
-
-  if (!headerMatch || headerMatch.index === undefined) {
-    return null;
-  }
-
-  const headerStart = headerMatch.index;
-  const headerEnd = headerStart + headerMatch[0].length;
-
-  // Find where the content ends (next ## header or end of file)
-  const nextHeaderRegex = /^##\s+/m;
-  const afterHeader = content.slice(headerEnd);
-  const nextHeaderMatch = afterHeader.match(nextHeaderRegex);
-
-  const contentEnd = nextHeaderMatch && nextHeaderMatch.index !== undefined
-    ? headerEnd + nextHeaderMatch.index
-    : content.length;
-
-  return {
-    headerStart,
-    headerEnd,
-    contentStart: headerEnd,
-    contentEnd
-  };
-}
-
-/**
- * Escape special regex characters in a string
- */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
 /**
  * Add entries to the Unreleased section of the changelog
  * Creates the section if it doesn't exist
@@ -300,64 +1088,59 @@ function escapeRegex(str: string): string {
 export function addToUnreleased(
   changelogPath: string,
   entries: CommitEntry[],
-  unreleasedHeader: string = '## Unreleased'
+  unreleasedHeader: string = DEFAULT_UNRELEASED_HEADER,
+  unreleasedAliases: string[] = UNRELEASED_ALIASES
 ): void {
   if (entries.length === 0) {
     return;
   }
 
-  let content = readChangelogContent(changelogPath);
-  const formattedEntries = entries.map(formatCommitEntry).join('\n');
-
-  // Find existing unreleased section
-  const unreleasedSection = findUnreleasedSection(content, unreleasedHeader);
-
-  if (unreleasedSection) {
-    // Get content before the unreleased header (title etc)
-    const beforeHeader = content.slice(0, unreleasedSection.headerStart).trimEnd();
-
-    // Get existing entries in unreleased section
-    const existingContent = content.slice(unreleasedSection.contentStart, unreleasedSection.contentEnd).trim();
+  const doc = readChangelog(changelogPath, [unreleasedHeader, ...unreleasedAliases]);
+  const toItems = (commits: CommitEntry[]) => commits.map(entry => itemBlock(formatCommitEntry(entry), doc));
+  let unreleasedSection = findUnreleasedSection(doc);
 
-    // Get content after unreleased section (version sections)
-    const afterContent = content.slice(unreleasedSection.contentEnd).trim();
-
-    // Build entries block: new entries first, then existing
-    const entriesBlock = existingContent
-      ? `${formattedEntries}\n${existingContent}`
-      : formattedEntries;
-
-    // Rebuild with consistent spacing:
-    // - blank line after title
-    // - header
-    // - blank line after header
-    // - entries
-    // - blank line before next section
-    const parts = [beforeHeader, '', unreleasedHeader, '', entriesBlock];
-    if (afterContent) {
-      parts.push('', afterContent);
+  if (!unreleasedSection) {
+    if (isEmpty(doc)) {
+      ensureTitle(doc);
     }
-    content = parts.join('\n') + '\n';
-  } else {
-    // No unreleased section exists - create one
-    // Check if there's a title line (# Changelog or similar)
-    const titleMatch = content.match(/^#\s+[^\n]+\n/);
-
-    if (titleMatch) {
-      // Insert after the title
-      const afterTitle = titleMatch[0].length;
-      const newSection = `\n${unreleasedHeader}\n\n${formattedEntries}\n`;
-      content = content.slice(0, afterTitle) + newSection + content.slice(afterTitle);
-    } else if (content.trim() === '') {
-      // Empty file - create with title and unreleased section
-      content = `# Changelog\n\n${unreleasedHeader}\n\n${formattedEntries}\n`;
-    } else {
-      // No title, prepend unreleased section
-      content = `${unreleasedHeader}\n\n${formattedEntries}\n\n${content}`;
+    unreleasedSection = {
+      kind: 'unreleased',
+      heading: createHeading(unreleasedHeader, doc),
+      blocks: [],
+      subsections: []
+    };
+    insertSection(doc, 0, unreleasedSection);
+  }
+  const section = unreleasedSection;
+
+  // New entries go first, one blank line after the header, and the existing
+  // content keeps its lines. Entries with a category go to its subsection.
+  const uncategorized = entries.filter(entry => !entry.category);
+  if (uncategorized.length > 0) {
+    section.blocks = prependItems(
+      section.blocks,
+      toItems(uncategorized),
+      section.subsections.length > 0 || isFollowed(doc, section),
+      doc
+    );
+  }
+
+  for (const category of CHANGE_CATEGORIES) {
+    const categorized = entries.filter(entry => entry.category === category);
+    if (categorized.length === 0) {
+      continue;
     }
+    const subsection = categorySubsection(doc, section, category);
+    const index = section.subsections.indexOf(subsection);
+    subsection.blocks = prependItems(
+      subsection.blocks,
+      toItems(categorized),
+      index < section.subsections.length - 1 || isFollowed(doc, section),
+      doc
+    );
   }
 
-  Fs.writeFileSync(changelogPath, content, 'utf-8');
+  writeChangelog(changelogPath, doc);
 }
 
 /**
@@ -368,64 +1151,36 @@ export function promoteUnreleasedToVersion(
   changelogPath: string,
   version: string,
   date: string,
-  unreleasedHeader: string = '## Unreleased'
+  unreleasedHeader: string = DEFAULT_UNRELEASED_HEADER,
+  unreleasedAliases: string[] = UNRELEASED_ALIASES
 ): void {
-  let content = readChangelogContent(changelogPath);
+  const names = [unreleasedHeader, ...unreleasedAliases];
+  const doc = readChangelog(changelogPath, names);
 
-  if (!content.trim()) {
+  if (isEmpty(doc)) {
     throw new Error('Changelog file is empty or does not exist');
   }
 
-  const unreleasedSection = findUnreleasedSection(content, unreleasedHeader);
+  const unreleasedSection = findUnreleasedSection(doc);
 
   if (!unreleasedSection) {
-    throw new Error(`Unreleased section not found in changelog (looking for "${unreleasedHeader}")`);
+    throw new Error(`Unreleased section not found in changelog (looking for ${names.map(name => `"${name}"`).join(', ')})`);
   }
 
-  // Extract the unreleased content
-  const unreleasedContent = content
-    .slice(unreleasedSection.contentStart, unreleasedSection.contentEnd)
-    .trim();
-
-  if (!unreleasedContent) {
+  if (!sectionContent(unreleasedSection)) {
     throw new Error('Unreleased section is empty - nothing to promote');
   }
 
-  // Build the new version section
-  const normalizedVersion = version.startsWith('v') ? version : `v${version}`;
-  const versionHeader = `## ${normalizedVersion} (${date})`;
-
-  // Build the new content:
-  // 1. Everything before unreleased header
-  // 2. Fresh unreleased section
-  // 3. New version section with the old unreleased content
-  // 4. Everything after the old unreleased content
-
-  const beforeUnreleased = content.slice(0, unreleasedSection.headerStart);
-  const afterUnreleased = content.slice(unreleasedSection.contentEnd);
-
-  // Build with proper spacing between sections
-  const parts = [
-    beforeUnreleased.trimEnd(),
-    '',
-    unreleasedHeader,
-    '',
-    versionHeader,
-    '',
-    unreleasedContent
-  ];
-
-  // Add trailing content with proper separation
-  const trimmedAfter = afterUnreleased.trimStart();
-  if (trimmedAfter) {
-    parts.push('');  // Blank line before next section
-    parts.push(trimmedAfter);
-  } else {
-    parts.push('');  // Ensure file ends with newline
-  }
+  // The version section takes over the blocks and subsections of the
+  // unreleased section, which stays in place with no content
+  const versionSection = createVersionSection(doc, version, date, unreleasedSection.blocks);
+  versionSection.subsections = unreleasedSection.subsections;
+  unreleasedSection.blocks = [blankBlock(doc)];
+  unreleasedSection.subsections = [];
 
-  const newContent = parts.join('\n');
-  Fs.writeFileSync(changelogPath, newContent, 'utf-8');
+  insertSection(doc, doc.sections.indexOf(unreleasedSection) + 1, versionSection);
+  updateCompareLinks(doc, version);
+  writeChangelog(changelogPath, doc);
 }
 
 /**
@@ -433,7 +1188,8 @@ export function promoteUnreleasedToVersion(
  */
 export function getUnreleasedContent(
   changelogPath: string,
-  unreleasedHeader: string = '## Unreleased'
+  unreleasedHeader: string = DEFAULT_UNRELEASED_HEADER,
+  unreleasedAliases: string[] = UNRELEASED_ALIASES
 ): string | null {
   const content = readChangelogContent(changelogPath);
 
@@ -441,30 +1197,27 @@ export function getUnreleasedContent(
     return null;
   }
 
-  const unreleasedSection = findUnreleasedSection(content, unreleasedHeader);
+  const unreleasedSection = findUnreleasedSection(
+    parseChangelogDocument(content, [unreleasedHeader, ...unreleasedAliases])
+  );
 
   if (!unreleasedSection) {
     return null;
   }
 
-  return content.slice(unreleasedSection.contentStart, unreleasedSection.contentEnd).trim();
+  return sectionContent(unreleasedSection);
 }
 
 /**
  * Check if a version exists in the changelog
  */
 export function hasVersion(changelogPath: string, version: string): boolean {
-  try {
-    const entries = parseChangelog(changelogPath);
-    const normalizedVersion = version.replace(/^v/, '');
-    return entries.some(e =>
-      e.version === normalizedVersion ||
-      e.version === `v${normalizedVersion}` ||
-      e.version === version
-    );
-  } catch {
-    return false;
-  }
+  const normalizedVersion = version.replace(/^v/, '');
+  return getVersions(changelogPath).some(v =>
+    v === normalizedVersion ||
+    v === `v${normalizedVersion}` ||
+    v === version
+  );
 }
 
 /**
@@ -472,10 +1225,8 @@ export function hasVersion(changelogPath: string, version: string): boolean {
  */
 export function getVersions(changelogPath: string): string[] {
   try {
-    const entries = parseChangelog(changelogPath);
-    return entries
-      .filter(e => e.version !== 'unreleased')
-      .map(e => e.version);
+    const doc = parseChangelogDocument(Fs.readFileSync(changelogPath, 'utf-8'));
+    return versionSections(doc).map(section => section.version!);
   } catch {
     return [];
   }
@@ -483,77 +1234,39 @@ export function getVersions(changelogPath: string): string[] {
 
 /**
  * Add a version section to the changelog (for backfilling)
- * Inserts the version in chronological order (newer versions at top)
+ * Inserts the version right after the Unreleased section, creating it if needed
  */
 export function addVersionSection(
   changelogPath: string,
   version: string,
   date: string,
   entries: CommitEntry[],
-  unreleasedHeader: string = '## Unreleased'
+  unreleasedHeader: string = DEFAULT_UNRELEASED_HEADER,
+  unreleasedAliases: string[] = UNRELEASED_ALIASES
 ): void {
-  let content = readChangelogContent(changelogPath);
+  const doc = readChangelog(changelogPath, [unreleasedHeader, ...unreleasedAliases]);
 
-  const normalizedVersion = version.startsWith('v') ? version : `v${version}`;
-  const versionHeader = `## ${normalizedVersion} (${date})`;
   const formattedEntries = entries.length > 0
-    ? entries.map(formatCommitEntry).join('\n')
-    : '- Initial release';
+    ? entries.map(formatCommitEntry)
+    : ['- Initial release'];
+  const items = formattedEntries.map(entry => itemBlock(entry, doc));
+  const versionSection = createVersionSection(doc, version, date, [blankBlock(doc), ...items]);
 
-  // Version section with proper spacing (blank line after entries)
-  const versionSection = `${versionHeader}\n\n${formattedEntries}`;
+  let unreleasedSection = findUnreleasedSection(doc);
 
-  if (!content.trim()) {
-    // Empty file - create with title, unreleased, and version
-    content = `# Changelog\n\n${unreleasedHeader}\n\n${versionSection}\n`;
-    Fs.writeFileSync(changelogPath, content, 'utf-8');
-    return;
+  if (!unreleasedSection) {
+    // Without an unreleased section, start the changelog with a title and an
+    // empty one
+    ensureTitle(doc);
+    unreleasedSection = {
+      kind: 'unreleased',
+      heading: createHeading(unreleasedHeader, doc),
+      blocks: [],
+      subsections: []
+    };
+    insertSection(doc, 0, unreleasedSection);
   }
 
-  // Find the unreleased section
-  const unreleasedSection = findUnreleasedSection(content, unreleasedHeader);
-
-  if (unreleasedSection) {
-    // Get content before unreleased header
-    const beforeHeader = content.slice(0, unreleasedSection.headerStart).trimEnd();
-
-    // Get unreleased section content
-    const unreleasedContent = content.slice(unreleasedSection.contentStart, unreleasedSection.contentEnd).trim();
-
-    // Get content after unreleased section (existing versions)
-    const afterUnreleased = content.slice(unreleasedSection.contentEnd).trim();
-
-    // Rebuild with consistent spacing
-    const parts = [beforeHeader, '', unreleasedHeader];
-
-    // Add unreleased content if any
-    if (unreleasedContent) {
-      parts.push('', unreleasedContent);
-    }
-
-    // Add new version section
-    parts.push('', versionSection);
-
-    // Add existing versions if any
-    if (afterUnreleased) {
-      parts.push('', afterUnreleased);
-    }
-
-    const newContent = parts.join('\n') + '\n';
-    Fs.writeFileSync(changelogPath, newContent, 'utf-8');
-  } else {
-    // No unreleased section - check for title
-    const titleMatch = content.match(/^#\s+[^\n]+\n/);
-
-    if (titleMatch) {
-      const afterTitle = titleMatch[0].length;
-      const newContent = content.slice(0, afterTitle) + '\n' + unreleasedHeader + '\n\n' + versionSection + '\n\n' + content.slice(afterTitle);
-      Fs.writeFileSync(changelogPath, newContent, 'utf-8');
-    } else {
-      // No title - prepend everything
-      content = `# Changelog\n\n${unreleasedHeader}\n\n${versionSection}\n\n${content}`;
-      Fs.writeFileSync(changelogPath, content, 'utf-8');
-    }
-  }
+  insertSection(doc, doc.sections.indexOf(unreleasedSection) + 1, versionSection);
+  writeChangelog(changelogPath, doc);
 }
-
@@ -0,0 +1,203 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Path from 'path';
+import { parseOpam, parseOpamValue, readOpamFile, validateOpamFile, OpamDiagnostic } from './opam';
+
+const fixtures = Path.join(__dirname, '..', 'test', 'fixtures');
+
+const VALID_HEADER = `opam-version: "2.0"
+synopsis: "A package"
+maintainer: ["Maintainer <m@example.com>"]
+authors: ["Author"]
+license: "MIT"
+homepage: "https://github.com/test/pkg"
+bug-reports: "https://github.com/test/pkg/issues"
+dev-repo: "git+https://github.com/test/pkg.git"
+`;
+
+function diagnose(content: string): OpamDiagnostic[] {
+  return validateOpamFile(parseOpam(content, 'pkg.opam'));
+}
+
+function messages(diagnostics: OpamDiagnostic[]): string[] {
+  return diagnostics.map(diagnostic => `${diagnostic.line}: ${diagnostic.message}`);
+}
+
+// ============================================================================
+// parseOpam Tests
+// ============================================================================
+
+describe('parseOpam', () => {
+  test('parses the valid fixture into a typed package', () => {
+    const file = readOpamFile(Path.join(fixtures, 'valid-project', 'test-package.opam'));
+
+    assert.deepStrictEqual(file.errors, []);
+    assert.strictEqual(file.package.opamVersion, '2.0');
+    assert.strictEqual(file.package.name, 'test-package');
+    assert.strictEqual(file.package.synopsis, 'A test package for CI');
+    assert.ok(file.package.description?.trim().startsWith('This is a test package'));
+    assert.deepStrictEqual(file.package.maintainer, ['Test Maintainer <test@example.com>']);
+    assert.deepStrictEqual(file.package.license, ['MIT']);
+    assert.strictEqual(file.package.devRepo, 'git+https://github.com/test/test-package.git');
+    assert.deepStrictEqual(file.package.depends.map(dep => [dep.name, dep.line]), [['ocaml', 16], ['dune', 17], ['alcotest', 18]]);
+    assert.deepStrictEqual(file.package.depends[0].filters, [
+      { kind: 'prefix', op: '>=', value: { kind: 'string', value: '4.08.0', line: 16 }, line: 16 }
+    ]);
+  });
+
+  test('records the line of each field', () => {
+    const file = readOpamFile(Path.join(fixtures, 'valid-project', 'test-package.opam'));
+    const lines = Object.fromEntries(file.items.map(item => [item.name, item.line]));
+
+    assert.strictEqual(lines['opam-version'], 1);
+    assert.strictEqual(lines['depends'], 15);
+    assert.strictEqual(lines['dev-repo'], 34);
+  });
+
+  test('parses formulas with logical operators and groups', () => {
+    const value = parseOpamValue('[ "a" {>= "1.0" & < "2.0"} ("b" | "c" {with-test}) ]');
+    const file = parseOpam(`depends: [ "a" {>= "1.0" & < "2.0"} ("b" | "c" {with-test}) ]`, 'pkg.opam');
+
+    assert.strictEqual(value.kind, 'list');
+    assert.deepStrictEqual(file.package.depends.map(dep => dep.name), ['a', 'b', 'c']);
+    const [a] = file.package.depends;
+    assert.strictEqual(a.filters.length, 1);
+    assert.strictEqual(a.filters[0].kind === 'binary' && a.filters[0].op, '&');
+  });
+
+  test('parses sections, comments, escapes and package variables', () => {
+    const file = parseOpam(`# comment
+opam-version: "2.0" (* block (* nested *) comment *)
+build: [ "make" "PREFIX=%{prefix}%" "\\"quoted\\"" ] {ocaml:native}
+url {
+  src: "https://example.com/pkg.tbz"
+  checksum: ["sha256=abc"]
+}
+`, 'pkg.opam');
+
+    assert.deepStrictEqual(file.errors, []);
+    assert.deepStrictEqual(file.items.map(item => [item.kind, item.name, item.line]), [
+      ['field', 'opam-version', 2],
+      ['field', 'build', 3],
+      ['section', 'url', 4]
+    ]);
+    const build = file.items[1];
+    assert.ok(build.kind === 'field' && build.value.kind === 'option');
+    assert.deepStrictEqual(build.value.filters, [{ kind: 'ident', name: 'ocaml:native', line: 3 }]);
+    assert.ok(build.value.value.kind === 'list' && build.value.value.items[2].kind === 'string');
+    assert.strictEqual(build.value.value.items[2].value, '"quoted"');
+  });
+
+  test('reports syntax errors with their position and resumes at the next field', () => {
+    const file = parseOpam(`opam-version: "2.0"
+synopsis "Missing colon"
+license: "MIT"
+depends: [ "a" {>= 1.0} ]
+homepage: "https://example.com"
+`, 'pkg.opam');
+
+    assert.deepStrictEqual(file.errors.map(error => [error.line, error.column, error.message]), [
+      [2, 10, "Expected ':' after synopsis, found \"Missing colon\""],
+      [4, 20, 'Unexpected character "1"']
+    ]);
+    assert.deepStrictEqual(file.items.map(item => item.name), ['opam-version', 'license', 'homepage']);
+  });
+
+  test('reports unterminated strings and lists', () => {
+    assert.match(parseOpam('synopsis: "oops\nlicense: "MIT"', 'pkg.opam').errors[0].message, /Unterminated string/);
+    assert.match(parseOpam('depends: [ "a"', 'pkg.opam').errors[0].message, /Expected '\]', found end of file/);
+  });
+});
+
+// ============================================================================
+// validateOpamFile Tests
+// ============================================================================
+
+describe('validateOpamFile', () => {
+  test('accepts the valid fixture', () => {
+    const file = readOpamFile(Path.join(fixtures, 'valid-project', 'test-package.opam'));
+    assert.deepStrictEqual(validateOpamFile(file), []);
+  });
+
+  test('reports every problem of the broken fixture with its line', () => {
+    const path = Path.join(fixtures, 'invalid-opam', 'broken.opam');
+    const diagnostics = validateOpamFile(readOpamFile(path));
+
+    assert.ok(diagnostics.every(diagnostic => diagnostic.file === path && diagnostic.severity === 'error'));
+    assert.deepStrictEqual(messages(diagnostics), [
+      `1: Missing field 'opam-version', opam-repository requires opam-version: "2.0"`,
+      "1: Missing field 'synopsis'",
+      "1: Missing field 'license'",
+      "1: Missing field 'homepage'",
+      "1: Missing field 'bug-reports'",
+      "1: Missing field 'dev-repo'",
+      "1: Missing field 'maintainer'",
+      "1: Missing field 'authors'",
+      '5: Malformed depends: expected a package name such as "dune" {>= "3.0"}, found this',
+      "7: Expected ':' after random, found 'content'"
+    ]);
+  });
+
+  test('reports fields that opam-repository rejects', () => {
+    const diagnostics = diagnose(`${VALID_HEADER}build-test: [["dune" "runtest"]]
+x-ci-accept-failures: ["macos"]
+foo: "bar"
+opam-version: "2.0"
+`);
+
+    assert.deepStrictEqual(messages(diagnostics), [
+      "9: Field 'build-test' is not accepted by opam-repository: use the {with-test} filter in build",
+      "11: Unknown field 'foo', extension fields must start with x-",
+      "12: Duplicate field 'opam-version', first defined at line 1"
+    ]);
+  });
+
+  test('requires opam-version 2.0 and a version control dev-repo', () => {
+    const diagnostics = diagnose(VALID_HEADER
+      .replace('opam-version: "2.0"', 'opam-version: "1.2"')
+      .replace('git+https://github.com/test/pkg.git', 'https://github.com/test/pkg'));
+
+    assert.deepStrictEqual(messages(diagnostics), [
+      '1: opam-repository requires opam-version: "2.0", found "1.2"',
+      '8: dev-repo must be a version control URL such as git+https://..., found "https://github.com/test/pkg"'
+    ]);
+  });
+
+  test('reports empty required fields', () => {
+    assert.deepStrictEqual(messages(diagnose(VALID_HEADER.replace('license: "MIT"', 'license: ""'))), [
+      "5: Field 'license' is empty"
+    ]);
+  });
+
+  test('warns about the synopsis style', () => {
+    const diagnostics = diagnose(VALID_HEADER.replace('"A package"', '"a package."'));
+    assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.line]), [['warning', 2]]);
+  });
+
+  test('reports malformed depends', () => {
+    assert.deepStrictEqual(messages(diagnose(`${VALID_HEADER}depends: 42\n`)), [
+      '9: Malformed depends: expected a package name such as "dune" {>= "3.0"}, found 42'
+    ]);
+    assert.deepStrictEqual(messages(diagnose(`${VALID_HEADER}depends: [\n  "dune"\n  "ocaml" {>= ["4.08"]}\n]\n`)), [
+      '11: Malformed depends: expected a package name such as "dune" {>= "3.0"}, found a list'
+    ]);
+    assert.deepStrictEqual(messages(diagnose(`${VALID_HEADER}depopts: [ "" ]\n`)), [
+      '9: Malformed depopts: expected a package name such as "dune" {>= "3.0"}, found ""'
+    ]);
+  });
+
+  test('accepts a single dependency without brackets', () => {
+    assert.deepStrictEqual(diagnose(`${VALID_HEADER}depends: "dune" {>= "3.0"}\ndepopts: "lwt"\n`), []);
+  });
+
+  test('accepts well-formed dependency formulas', () => {
+    const content = `${VALID_HEADER}depends: [
+  "ocaml" {>= "4.08" & < "6.0"}
+  ("lwt" | "async") {with-test}
+  "dune" {>= "3.0" & build}
+  "odoc" {with-doc & !(os = "win32")}
+]
+`;
+    assert.deepStrictEqual(diagnose(content), []);
+  });
+});
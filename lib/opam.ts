@@ -0,0 +1,634 @@
+import Fs from 'fs';
+
+/**
+ * A value of the opam file format, with the line it starts on
+ */
+export type OpamValue =
+  | { kind: 'string'; value: string; line: number }
+  | { kind: 'int'; value: number; line: number }
+  | { kind: 'bool'; value: boolean; line: number }
+  | { kind: 'ident'; name: string; line: number }
+  | { kind: 'list'; items: OpamValue[]; line: number }
+  | { kind: 'group'; items: OpamValue[]; line: number }
+  // value { filters }, e.g. "dune" {>= "3.0"}
+  | { kind: 'option'; value: OpamValue; filters: OpamValue[]; line: number }
+  // Prefix relational operator, ! or ?
+  | { kind: 'prefix'; op: string; value: OpamValue; line: number }
+  // Relational, logical (& and |) or environment update (+= etc.) operator
+  | { kind: 'binary'; op: string; left: OpamValue; right: OpamValue; line: number };
+
+export interface OpamField {
+  kind: 'field';
+  name: string;
+  value: OpamValue;
+  line: number;
+}
+
+export interface OpamSection {
+  kind: 'section';
+  name: string;
+  label?: string;
+  items: OpamItem[];
+  line: number;
+}
+
+export type OpamItem = OpamField | OpamSection;
+
+export interface OpamDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  file: string;
+  line: number;
+  column?: number;
+}
+
+export interface OpamDependency {
+  name: string;
+  // Version constraints and flags, e.g. >= "3.0" or with-test
+  filters: OpamValue[];
+  line: number;
+}
+
+/**
+ * Typed view of the fields the release cares about
+ */
+export interface OpamPackage {
+  opamVersion?: string;
+  name?: string;
+  version?: string;
+  synopsis?: string;
+  description?: string;
+  maintainer: string[];
+  authors: string[];
+  license: string[];
+  homepage: string[];
+  bugReports: string[];
+  devRepo?: string;
+  depends: OpamDependency[];
+}
+
+export interface OpamFile {
+  path: string;
+  items: OpamItem[];
+  package: OpamPackage;
+  // Syntax errors, parsing resumes at the next field after each one
+  errors: OpamDiagnostic[];
+}
+
+// Fields of the opam 2.0 format, anything else must start with x-
+const KNOWN_FIELDS = [
+  'opam-version', 'name', 'version', 'maintainer', 'authors', 'author', 'license', 'homepage', 'doc',
+  'bug-reports', 'dev-repo', 'tags', 'patches', 'substs', 'build', 'install', 'build-env', 'run-test',
+  'remove', 'depends', 'depopts', 'conflicts', 'conflict-class', 'available', 'flags', 'setenv',
+  'synopsis', 'description', 'depexts', 'messages', 'post-messages', 'features', 'pin-depends',
+  'extra-files'
+];
+const KNOWN_SECTIONS = ['url', 'extra-source'];
+
+// Fields of opam 1.x that opam-repository CI rejects, with what to use instead
+const REMOVED_FIELDS: Record<string, string> = {
+  'build-test': 'use the {with-test} filter in build',
+  'build-doc': 'use the {with-doc} filter in build',
+  'ocaml-version': 'add a constraint on the ocaml package to depends',
+  'os': 'use available: os = "..."',
+  'libraries': 'it was removed in opam 2.0',
+  'syntax': 'it was removed in opam 2.0'
+};
+
+// Missing fields that opam-repository CI rejects
+const REQUIRED_FIELDS = ['synopsis', 'license', 'homepage', 'bug-reports', 'dev-repo'];
+
+const RELOPS = ['=', '!=', '<', '<=', '>', '>='];
+const ENVOPS = ['+=', '=+', ':=', '=:'];
+
+const BLANK = /(?:\s+|#[^\n]*)/y;
+const INT = /-?\d+(?![\w.])/y;
+// Package variables such as ocaml:version are a single identifier
+const IDENT = /[A-Za-z_][\w+-]*(?::[A-Za-z_][\w+-]*)?/y;
+const SYMBOL = /(?:!=|<=|>=|\+=|=\+|:=|=:|[[\]{}():=<>!?&|])/y;
+// Where parsing resumes after a syntax error
+const FIELD_START = /[A-Za-z_][\w+-]*[ \t]*:/y;
+
+class OpamSyntaxError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(message);
+  }
+}
+
+type Token =
+  | { type: 'string'; value: string; line: number; column: number }
+  | { type: 'int'; value: number; line: number; column: number }
+  | { type: 'ident'; value: string; line: number; column: number }
+  | { type: 'symbol'; value: string; line: number; column: number }
+  | { type: 'eof'; value: ''; line: number; column: number };
+
+/**
+ * Reads tokens from the content on demand, so that parsing can resume at any position
+ */
+class Scanner {
+  private pos = 0;
+  private line = 1;
+  private lineStart = 0;
+  private peeked: Token | null = null;
+
+  constructor(private readonly content: string) {}
+
+  peek(): Token {
+    if (!this.peeked) {
+      this.peeked = this.read();
+    }
+    return this.peeked;
+  }
+
+  next(): Token {
+    const token = this.peek();
+    this.peeked = null;
+    return token;
+  }
+
+  /**
+   * Skip to the first line after a syntax error that starts with a field name. The scanner may
+   * already have read past that line while looking ahead.
+   */
+  skipToNextField(errorLine: number): void {
+    this.peeked = null;
+    this.pos = 0;
+    this.line = 1;
+    this.lineStart = 0;
+    for (;;) {
+      const newline = this.content.indexOf('\n', this.pos);
+      if (newline === -1) {
+        this.advanceTo(this.content.length);
+        return;
+      }
+      this.advanceTo(newline + 1);
+      if (this.line > errorLine && this.match(FIELD_START)) {
+        return;
+      }
+    }
+  }
+
+  private advanceTo(pos: number): void {
+    for (let i = this.pos; i < pos; i++) {
+      if (this.content[i] === '\n') {
+        this.line++;
+        this.lineStart = i + 1;
+      }
+    }
+    this.pos = pos;
+  }
+
+  // Match a sticky pattern at the current position
+  private match(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.content);
+    return match ? match[0] : null;
+  }
+
+  private error(message: string): OpamSyntaxError {
+    return new OpamSyntaxError(message, this.line, this.pos - this.lineStart + 1);
+  }
+
+  private skipBlanks(): void {
+    for (;;) {
+      const blank = this.match(BLANK);
+      if (blank) {
+        this.advanceTo(this.pos + blank.length);
+      } else if (this.content.startsWith('(*', this.pos)) {
+        this.skipComment();
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipComment(): void {
+    let depth = 0;
+    let i = this.pos;
+    while (i < this.content.length) {
+      if (this.content.startsWith('(*', i)) {
+        depth++;
+        i += 2;
+      } else if (this.content.startsWith('*)', i)) {
+        depth--;
+        i += 2;
+        if (depth === 0) {
+          this.advanceTo(i);
+          return;
+        }
+      } else {
+        i++;
+      }
+    }
+    throw this.error('Unterminated comment');
+  }
+
+  private read(): Token {
+    this.skipBlanks();
+    const line = this.line;
+    const column = this.pos - this.lineStart + 1;
+
+    if (this.pos >= this.content.length) {
+      return { type: 'eof', value: '', line, column };
+    }
+    if (this.content[this.pos] === '"') {
+      return { type: 'string', value: this.readString(), line, column };
+    }
+    const int = this.match(INT);
+    if (int) {
+      this.advanceTo(this.pos + int.length);
+      return { type: 'int', value: Number(int), line, column };
+    }
+    const ident = this.match(IDENT);
+    if (ident) {
+      this.advanceTo(this.pos + ident.length);
+      return { type: 'ident', value: ident, line, column };
+    }
+    const symbol = this.match(SYMBOL);
+    if (symbol) {
+      this.advanceTo(this.pos + symbol.length);
+      return { type: 'symbol', value: symbol, line, column };
+    }
+    throw this.error(`Unexpected character ${JSON.stringify(this.content[this.pos])}`);
+  }
+
+  private readString(): string {
+    const triple = this.content.startsWith('"""', this.pos);
+    const delimiter = triple ? '"""' : '"';
+    let i = this.pos + delimiter.length;
+    let value = '';
+    while (i < this.content.length) {
+      if (this.content.startsWith(delimiter, i)) {
+        this.advanceTo(i + delimiter.length);
+        return value;
+      }
+      const char = this.content[i];
+      if (char === '\n' && !triple) {
+        break;
+      }
+      if (char === '\\') {
+        const escaped = this.content[i + 1];
+        if (escaped === '\n') {
+          // A backslash at the end of a line skips the newline and the indentation
+          i += 2;
+          while (this.content[i] === ' ' || this.content[i] === '\t') i++;
+          continue;
+        }
+        value += ({ n: '\n', t: '\t', r: '\r', b: '\b' } as Record<string, string>)[escaped] ?? escaped;
+        i += 2;
+      } else {
+        value += char;
+        i++;
+      }
+    }
+    throw this.error('Unterminated string');
+  }
+}
+
+class Parser {
+  constructor(private readonly scanner: Scanner) {}
+
+  /**
+   * Parse the top-level items, recording syntax errors and resuming at the next field
+   */
+  file(path: string, errors: OpamDiagnostic[]): OpamItem[] {
+    const items: OpamItem[] = [];
+    while (this.scanner.peek().type !== 'eof') {
+      try {
+        items.push(this.item());
+      } catch (error: any) {
+        if (!(error instanceof OpamSyntaxError)) {
+          throw error;
+        }
+        errors.push({ severity: 'error', message: error.message, file: path, line: error.line, column: error.column });
+        this.scanner.skipToNextField(error.line);
+      }
+    }
+    return items;
+  }
+
+  private item(): OpamItem {
+    const name = this.scanner.next();
+    if (name.type !== 'ident') {
+      throw this.unexpected(name, 'a field name');
+    }
+    const token = this.scanner.next();
+    if (token.type === 'symbol' && token.value === ':') {
+      return { kind: 'field', name: name.value, value: this.value(), line: name.line };
+    }
+
+    let label: string | undefined;
+    if (token.type === 'string' && this.isSymbol('{')) {
+      // Labelled section such as extra-source "file" { ... }
+      label = token.value;
+      this.scanner.next();
+    } else if (token.type !== 'symbol' || token.value !== '{') {
+      throw this.unexpected(token, `':' after ${name.value}`);
+    }
+    const items: OpamItem[] = [];
+    while (!this.isSymbol('}')) {
+      if (this.scanner.peek().type === 'eof') {
+        throw this.unexpected(this.scanner.peek(), "'}'");
+      }
+      items.push(this.item());
+    }
+    this.scanner.next();
+    return { kind: 'section', name: name.value, label, items, line: name.line };
+  }
+
+  value(): OpamValue {
+    return this.logical('|');
+  }
+
+  // | binds looser than &
+  private logical(op: '|' | '&'): OpamValue {
+    const operand = () => op === '|' ? this.logical('&') : this.relational();
+    let left = operand();
+    while (this.isSymbol(op)) {
+      this.scanner.next();
+      left = { kind: 'binary', op, left, right: operand(), line: left.line };
+    }
+    return left;
+  }
+
+  private relational(): OpamValue {
+    const left = this.prefix();
+    const token = this.scanner.peek();
+    if (token.type === 'symbol' && (RELOPS.includes(token.value) || ENVOPS.includes(token.value))) {
+      this.scanner.next();
+      return { kind: 'binary', op: token.value, left, right: this.prefix(), line: left.line };
+    }
+    return left;
+  }
+
+  private prefix(): OpamValue {
+    const token = this.scanner.peek();
+    if (token.type === 'symbol' && (token.value === '!' || token.value === '?' || RELOPS.includes(token.value))) {
+      this.scanner.next();
+      return { kind: 'prefix', op: token.value, value: this.prefix(), line: token.line };
+    }
+    return this.atom();
+  }
+
+  private atom(): OpamValue {
+    const token = this.scanner.next();
+    let value: OpamValue;
+    if (token.type === 'string') {
+      value = { kind: 'string', value: token.value, line: token.line };
+    } else if (token.type === 'int') {
+      value = { kind: 'int', value: token.value, line: token.line };
+    } else if (token.type === 'ident') {
+      value = token.value === 'true' || token.value === 'false'
+        ? { kind: 'bool', value: token.value === 'true', line: token.line }
+        : { kind: 'ident', name: token.value, line: token.line };
+    } else if (token.type === 'symbol' && token.value === '[') {
+      value = { kind: 'list', items: this.sequence(']'), line: token.line };
+    } else if (token.type === 'symbol' && token.value === '(') {
+      value = { kind: 'group', items: this.sequence(')'), line: token.line };
+    } else {
+      throw this.unexpected(token, 'a value');
+    }
+
+    if (this.isSymbol('{')) {
+      this.scanner.next();
+      value = { kind: 'option', value, filters: this.sequence('}'), line: value.line };
+    }
+    return value;
+  }
+
+  private sequence(closing: string): OpamValue[] {
+    const values: OpamValue[] = [];
+    while (!this.isSymbol(closing)) {
+      if (this.scanner.peek().type === 'eof') {
+        throw this.unexpected(this.scanner.peek(), `'${closing}'`);
+      }
+      values.push(this.value());
+    }
+    this.scanner.next();
+    return values;
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.scanner.peek();
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private unexpected(token: Token, expected: string): OpamSyntaxError {
+    const found = token.type === 'eof' ? 'end of file' : token.type === 'string' ? JSON.stringify(token.value) : `'${token.value}'`;
+    return new OpamSyntaxError(`Expected ${expected}, found ${found}`, token.line, token.column);
+  }
+}
+
+/**
+ * Parse the content of an opam file. Syntax errors are collected in errors instead of thrown.
+ */
+export function parseOpam(content: string, path: string): OpamFile {
+  const errors: OpamDiagnostic[] = [];
+  const items = new Parser(new Scanner(content)).file(path, errors);
+  return { path, items, package: toPackage(items), errors };
+}
+
+export function readOpamFile(path: string): OpamFile {
+  return parseOpam(Fs.readFileSync(path, 'utf-8'), path);
+}
+
+/**
+ * Parse a single opam value, e.g. a depends formula
+ */
+export function parseOpamValue(content: string): OpamValue {
+  const scanner = new Scanner(content);
+  const value = new Parser(scanner).value();
+  const rest = scanner.peek();
+  if (rest.type !== 'eof') {
+    throw new Error(`Unexpected '${rest.value}' after the value at line ${rest.line}`);
+  }
+  return value;
+}
+
+function toPackage(items: OpamItem[]): OpamPackage {
+  const fields = new Map<string, OpamValue>();
+  for (const item of items) {
+    if (item.kind === 'field') {
+      fields.set(item.name, item.value);
+    }
+  }
+  const string = (name: string) => {
+    const value = fields.get(name);
+    return value?.kind === 'string' ? value.value : undefined;
+  };
+  // Fields such as authors take a string or a list of strings
+  const strings = (name: string) => {
+    const value = fields.get(name);
+    const values = value?.kind === 'list' ? value.items : value ? [value] : [];
+    return values.flatMap(item => item.kind === 'string' ? [item.value] : []);
+  };
+
+  return {
+    opamVersion: string('opam-version'),
+    name: string('name'),
+    version: string('version'),
+    synopsis: string('synopsis'),
+    description: string('description'),
+    maintainer: strings('maintainer'),
+    authors: [...strings('authors'), ...strings('author')],
+    license: strings('license'),
+    homepage: strings('homepage'),
+    bugReports: strings('bug-reports'),
+    devRepo: string('dev-repo'),
+    depends: dependencies(fields.get('depends'))
+  };
+}
+
+// Packages named in a dependency formula, ignoring the malformed parts
+function dependencies(value: OpamValue | undefined): OpamDependency[] {
+  if (!value) {
+    return [];
+  }
+  switch (value.kind) {
+    case 'string':
+      return [{ name: value.value, filters: [], line: value.line }];
+    case 'option':
+      return value.value.kind === 'string'
+        ? [{ name: value.value.value, filters: value.filters, line: value.line }]
+        : dependencies(value.value);
+    case 'list':
+    case 'group':
+      return value.items.flatMap(dependencies);
+    case 'binary':
+      return [...dependencies(value.left), ...dependencies(value.right)];
+    default:
+      return [];
+  }
+}
+
+function describeValue(value: OpamValue): string {
+  switch (value.kind) {
+    case 'string': return JSON.stringify(value.value);
+    case 'int':
+    case 'bool': return String(value.value);
+    case 'ident': return value.name;
+    case 'list': return 'a list';
+    case 'group': return 'a group';
+    case 'option': return describeValue(value.value);
+    case 'prefix': return `'${value.op}'`;
+    case 'binary': return `'${value.op}'`;
+  }
+}
+
+// The first part of a package formula that is not a package name, a filter or a & or | of them
+function malformedFormula(value: OpamValue): OpamValue | null {
+  switch (value.kind) {
+    case 'string':
+      return value.value.trim() ? null : value;
+    case 'option':
+      if (value.value.kind !== 'string' && value.value.kind !== 'group') {
+        return value.value;
+      }
+      return malformedFormula(value.value) || value.filters.map(malformedFilter).find(Boolean) || null;
+    case 'group':
+      return value.items.map(malformedFormula).find(Boolean) || null;
+    case 'binary':
+      return value.op === '&' || value.op === '|'
+        ? malformedFormula(value.left) || malformedFormula(value.right)
+        : value;
+    default:
+      return value;
+  }
+}
+
+function malformedFilter(value: OpamValue): OpamValue | null {
+  switch (value.kind) {
+    case 'string':
+    case 'ident':
+    case 'bool':
+      return null;
+    case 'prefix':
+      return malformedFilter(value.value);
+    case 'binary':
+      return ENVOPS.includes(value.op) ? value : malformedFilter(value.left) || malformedFilter(value.right);
+    case 'group':
+      return value.items.map(malformedFilter).find(Boolean) || null;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check an opam file for what opam-repository CI rejects: syntax errors, missing metadata
+ * fields, malformed dependencies and fields that are unknown or were removed in opam 2.0
+ */
+export function validateOpamFile(file: OpamFile): OpamDiagnostic[] {
+  const diagnostics: OpamDiagnostic[] = [...file.errors];
+  const error = (message: string, line: number) => diagnostics.push({ severity: 'error', message, file: file.path, line });
+  const warning = (message: string, line: number) => diagnostics.push({ severity: 'warning', message, file: file.path, line });
+  const fields = new Map<string, OpamField>();
+
+  for (const item of file.items) {
+    if (item.kind === 'section') {
+      if (!KNOWN_SECTIONS.includes(item.name)) {
+        error(`Unknown section '${item.name}'`, item.line);
+      }
+      continue;
+    }
+    if (fields.has(item.name)) {
+      error(`Duplicate field '${item.name}', first defined at line ${fields.get(item.name)!.line}`, item.line);
+    }
+    fields.set(item.name, item);
+    if (item.name in REMOVED_FIELDS) {
+      error(`Field '${item.name}' is not accepted by opam-repository: ${REMOVED_FIELDS[item.name]}`, item.line);
+    } else if (!KNOWN_FIELDS.includes(item.name) && !item.name.startsWith('x-')) {
+      error(`Unknown field '${item.name}', extension fields must start with x-`, item.line);
+    }
+  }
+
+  const opamVersion = fields.get('opam-version');
+  if (!opamVersion) {
+    error("Missing field 'opam-version', opam-repository requires opam-version: \"2.0\"", 1);
+  } else if (opamVersion.value.kind !== 'string' || opamVersion.value.value !== '2.0') {
+    error(`opam-repository requires opam-version: "2.0", found ${describeValue(opamVersion.value)}`, opamVersion.line);
+  }
+
+  // Missing fields are reported on the first line, syntax errors may have hidden them
+  for (const name of REQUIRED_FIELDS) {
+    const field = fields.get(name);
+    if (!field) {
+      error(`Missing field '${name}'`, 1);
+    } else if (field.value.kind === 'string' && !field.value.value.trim()) {
+      error(`Field '${name}' is empty`, field.line);
+    }
+  }
+
+  for (const name of ['maintainer', 'authors']) {
+    if (!fields.has(name) && !(name === 'authors' && fields.has('author'))) {
+      error(`Missing field '${name}'`, 1);
+    }
+  }
+
+  const synopsis = fields.get('synopsis');
+  if (synopsis?.value.kind === 'string' && synopsis.value.value.trim()) {
+    const text = synopsis.value.value.trim();
+    if (!/^[A-Z0-9`"'(]/.test(text) || text.endsWith('.')) {
+      warning('The synopsis should start with a capital letter and not end with a dot', synopsis.line);
+    }
+  }
+
+  const devRepo = fields.get('dev-repo');
+  if (devRepo?.value.kind === 'string' && devRepo.value.value.trim() && !/^(?:git|hg|darcs)(?:\+\w+)?:\/\//.test(devRepo.value.value)) {
+    error(`dev-repo must be a version control URL such as git+https://..., found ${JSON.stringify(devRepo.value.value)}`, devRepo.line);
+  }
+
+  for (const name of ['depends', 'depopts']) {
+    const field = fields.get(name);
+    if (!field) {
+      continue;
+    }
+    // A list of one element may be written without brackets
+    const items = field.value.kind === 'list' ? field.value.items : [field.value];
+    const malformed = items.map(malformedFormula).find(Boolean);
+    if (malformed) {
+      error(`Malformed ${name}: expected a package name such as "dune" {>= "3.0"}, found ${describeValue(malformed)}`, malformed.line);
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+}